@@ -16,8 +16,8 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Check if we're in development (no dist folder) or production (dist folder exists)
-const distPath = resolve(__dirname, '../dist/index.js');
-const srcPath = resolve(__dirname, '../src/index.ts');
+const distPath = resolve(__dirname, '../dist/cli.js');
+const srcPath = resolve(__dirname, '../src/cli.ts');
 
 if (existsSync(distPath)) {
   // Production: use compiled JavaScript
@@ -0,0 +1,58 @@
+import path from 'path';
+import { generateWebApp, type GenerationResult } from './generators/web/index.js';
+import { configToTemplateContext } from './utils/config-builder.js';
+import { errors } from './utils/errors.js';
+import { silentLogger, type Logger } from './utils/logger.js';
+import { validateGenerationEnvironment } from './utils/validation.js';
+import { validateConfig } from './validators/config-schema.js';
+import type { ConfigDiagnostic, ConflictStrategy, WorkspaceConfig } from './types/config.js';
+
+/**
+ * Programmatic generation - the same projects as the CLI, without printing to
+ * the terminal or exiting the process. Failures are thrown as GeneratorError.
+ */
+
+export interface GenerateOptions {
+  targetDir: string; // Where to generate the project, resolved against the current directory
+  dryRun?: boolean; // Plan the files without writing anything
+  conflict?: ConflictStrategy; // Generate into an existing targetDir, handling existing files this way
+  logger?: Logger; // Receives progress messages, discarded by default
+}
+
+export interface GenerateResult extends GenerationResult {
+  warnings: ConfigDiagnostic[]; // Config problems that did not stop generation
+}
+
+/**
+ * Validate a config and generate the project it describes into targetDir
+ */
+export async function generate(
+  config: WorkspaceConfig,
+  options: GenerateOptions
+): Promise<GenerateResult> {
+  const validation = validateConfig(config);
+  if (!validation.valid) {
+    throw errors.configValidationFailed(
+      'the configuration',
+      validation.diagnostics.filter((diagnostic) => diagnostic.severity === 'error')
+    );
+  }
+
+  const targetDir = path.resolve(options.targetDir);
+  await validateGenerationEnvironment(config.name, targetDir, true, !!options.conflict);
+
+  const result = await generateWebApp({
+    targetDir,
+    config,
+    templateContext: configToTemplateContext(config),
+    skipInstall: true,
+    dryRun: options.dryRun,
+    conflict: options.conflict,
+    logger: options.logger ?? silentLogger,
+  });
+
+  return {
+    ...result,
+    warnings: validation.diagnostics.filter((diagnostic) => diagnostic.severity === 'warning'),
+  };
+}
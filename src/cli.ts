@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+
+import { Command } from 'commander';
+import { createCommand } from './commands/create.js';
+import { addCommand } from './commands/add.js';
+import { upgradeCommand } from './commands/upgrade.js';
+import { doctorCommand } from './commands/doctor.js';
+import { configCommand } from './commands/config.js';
+import { presetsCommand } from './commands/presets.js';
+import { schemaCommand } from './commands/schema.js';
+import { getGeneratorVersion } from './utils/file-system.js';
+import { configureLogger, getLogLevel } from './utils/logger.js';
+
+/**
+ * Main CLI entry point
+ */
+async function main() {
+  const program = new Command();
+
+  program
+    .name('app-workspace-generator')
+    .description('Generate production-ready web app workspaces with AI agent instructions')
+    .version(await getGeneratorVersion());
+
+  // Set the log level from the running command's --silent, --quiet, --verbose or --debug
+  program.hook('preAction', (_program, actionCommand) => {
+    configureLogger({ level: getLogLevel(actionCommand.opts()) });
+  });
+
+  // Add create command
+  program.addCommand(createCommand());
+
+  // Add add command
+  program.addCommand(addCommand());
+
+  // Add upgrade command
+  program.addCommand(upgradeCommand());
+
+  // Add doctor command
+  program.addCommand(doctorCommand());
+
+  // Add config command
+  program.addCommand(configCommand());
+
+  // Add presets command
+  program.addCommand(presetsCommand());
+
+  // Add schema command
+  program.addCommand(schemaCommand());
+
+  // Parse arguments
+  await program.parseAsync(process.argv);
+}
+
+main().catch((error) => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
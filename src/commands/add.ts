@@ -0,0 +1,105 @@
+import path from 'path';
+import { Command } from 'commander';
+import { ADDABLE_FEATURES, addFeature, isAddableFeature } from '../generators/web/features.js';
+import { loadProjectConfig } from '../utils/project-config.js';
+import { logger } from '../utils/logger.js';
+import { displayError, errors } from '../utils/errors.js';
+import type { BackendFeature, FirebasePattern } from '../types/config.js';
+
+const BACKEND_FEATURES: BackendFeature[] = ['auth', 'database', 'storage', 'functions'];
+
+/**
+ * Add command - Add a feature to an already-generated project
+ */
+export function addCommand(): Command {
+  return new Command('add')
+    .argument('<feature>', `Feature to add (${ADDABLE_FEATURES.join(', ')})`)
+    .option('-d, --dir <path>', 'Project directory (defaults to the current directory)')
+    .option('--firebase-pattern <pattern>', 'Firebase pattern: client-side or server-first')
+    .option(
+      '--backend-features <features>',
+      `Comma-separated Firebase features (${BACKEND_FEATURES.join(', ')})`
+    )
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description('Add a feature to an existing project')
+    .action(async (feature: string, options) => {
+      try {
+        await runAdd(feature, options);
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Add a feature to the project in the target directory
+ */
+async function runAdd(
+  feature: string,
+  options: { dir?: string; firebasePattern?: string; backendFeatures?: string }
+): Promise<void> {
+  if (!isAddableFeature(feature)) {
+    throw errors.unsupportedFeature(feature, [...ADDABLE_FEATURES]);
+  }
+
+  if (
+    options.firebasePattern &&
+    !['client-side', 'server-first'].includes(options.firebasePattern)
+  ) {
+    throw errors.invalidConfig('--firebase-pattern must be "client-side" or "server-first"');
+  }
+
+  const backendFeatures = options.backendFeatures
+    ?.split(',')
+    .map((f) => f.trim())
+    .filter(Boolean);
+  const unknownFeature = backendFeatures?.find((f) => !(BACKEND_FEATURES as string[]).includes(f));
+  if (unknownFeature) {
+    throw errors.invalidConfig(
+      `Unknown backend feature "${unknownFeature}"; --backend-features accepts ${BACKEND_FEATURES.join(', ')}`
+    );
+  }
+
+  const targetDir = path.resolve(process.cwd(), options.dir || '.');
+
+  logger.step('Reading project configuration...');
+  const config = await loadProjectConfig(targetDir);
+
+  logger.header(`Adding ${feature} to ${config.name}`);
+
+  const result = await addFeature({
+    targetDir,
+    config,
+    feature,
+    firebasePattern: options.firebasePattern as FirebasePattern | undefined,
+    backendFeatures: backendFeatures as BackendFeature[] | undefined,
+  });
+
+  logger.fileCount(result.filesCreated.length, 'files created');
+  result.filesSkipped.forEach((file) => {
+    logger.warning(`Skipped ${file} (already exists)`);
+  });
+
+  if (result.dependenciesAdded.length > 0) {
+    logger.section('Updated package.json');
+    result.dependenciesAdded.forEach(({ section, name, value }) => {
+      console.log(`  + ${section}.${name}: ${value}`);
+    });
+  }
+
+  if (result.filesToReview.length > 0) {
+    logger.newLine();
+    logger.warning('These files differ for the new feature and were left untouched:');
+    result.filesToReview.forEach((file) => {
+      console.log(`  • ${file}`);
+    });
+  }
+
+  logger.newLine();
+  logger.success(`Added ${feature} to ${config.name}`);
+
+  if (result.dependenciesAdded.length > 0) {
+    logger.tip('Install the new dependencies with your package manager');
+  }
+}
@@ -0,0 +1,193 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Command } from 'commander';
+import { runInteractivePrompts } from '../prompts/interactive.js';
+import {
+  DEFAULT_CONFIG_FILE,
+  loadConfigFromFile,
+  readConfigFile,
+  resolveConfigFile,
+  saveConfigToFile,
+} from '../prompts/config-loader.js';
+import { CONFIG_VERSION, migrateConfig } from '../prompts/config-migrations.js';
+import { serializeConfigFile } from '../prompts/config-parsers.js';
+import { answersToConfig } from '../utils/config-builder.js';
+import { logger } from '../utils/logger.js';
+import { displayError, errors } from '../utils/errors.js';
+import { formatDiagnostic, validateConfig } from '../validators/config-schema.js';
+
+/**
+ * Config command - Create and manage configuration files
+ */
+export function configCommand(): Command {
+  return new Command('config')
+    .description('Create and manage configuration files')
+    .addCommand(configInitCommand())
+    .addCommand(configValidateCommand())
+    .addCommand(configMigrateCommand())
+    .addCommand(configResolveCommand());
+}
+
+/**
+ * config init - Run the interactive prompts and save the answers without generating
+ */
+function configInitCommand(): Command {
+  return new Command('init')
+    .option('-o, --output <path>', 'Where to write the config file', DEFAULT_CONFIG_FILE)
+    .option('--force', 'Overwrite an existing config file')
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description('Answer the interactive prompts and save them as a config file')
+    .action(async (options) => {
+      try {
+        await runConfigInit(options);
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * config validate - Check a config file without generating anything
+ */
+function configValidateCommand(): Command {
+  return new Command('validate')
+    .argument('<path>', 'Config file to validate')
+    .option('--json', 'Print the diagnostics as JSON')
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description('Validate a config file and report problems with their paths')
+    .action(async (configPath: string, options) => {
+      try {
+        await runConfigValidate(configPath, options);
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * config migrate - Rewrite a config file in place at the current config version
+ */
+function configMigrateCommand(): Command {
+  return new Command('migrate')
+    .argument('<path>', 'Config file to migrate')
+    .option('--dry-run', 'Print the migrated config instead of writing it')
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description(`Upgrade a config file to config version ${CONFIG_VERSION}`)
+    .action(async (configPath: string, options) => {
+      try {
+        await runConfigMigrate(configPath, options);
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * config resolve - Print the config that create --config would generate from
+ */
+function configResolveCommand(): Command {
+  return new Command('resolve')
+    .argument('<path>', 'Config file to resolve')
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description('Print the fully resolved config: migrated, extended and filled from defaults')
+    .action(async (configPath: string, options) => {
+      try {
+        const config = await loadConfigFromFile(configPath);
+        console.log(JSON.stringify(config, null, 2));
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Prompt for a configuration and write it to the output path
+ */
+async function runConfigInit(options: { output: string; force?: boolean }): Promise<void> {
+  const outputPath = path.resolve(process.cwd(), options.output);
+
+  // Fail before asking anything rather than after
+  if (!options.force && (await fs.pathExists(outputPath))) {
+    throw errors.configFileExists(outputPath);
+  }
+
+  // Nothing is generated, so an existing project directory is fine
+  const answers = await runInteractivePrompts(process.cwd(), true);
+  const config = answersToConfig(answers);
+
+  await saveConfigToFile(config, outputPath);
+
+  logger.newLine();
+  logger.success(`Configuration saved to ${outputPath}`);
+  logger.tip(
+    `Generate the project with: app-workspace-generator create --config ${options.output}`
+  );
+}
+
+/**
+ * Validate a config file (with everything it extends); exits 1 when it has errors
+ */
+async function runConfigValidate(configPath: string, options: { json?: boolean }): Promise<void> {
+  const validation = validateConfig(await resolveConfigFile(configPath));
+
+  if (options.json) {
+    console.log(JSON.stringify(validation, null, 2));
+    if (!validation.valid) {
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (!validation.valid) {
+    throw errors.configValidationFailed(configPath, validation.diagnostics);
+  }
+
+  validation.diagnostics.forEach((diagnostic) => {
+    logger.warning(formatDiagnostic(diagnostic));
+  });
+  logger.success(`${configPath} is valid`);
+}
+
+/**
+ * Migrate a single config file; the files it extends are left alone
+ */
+async function runConfigMigrate(configPath: string, options: { dryRun?: boolean }): Promise<void> {
+  const absolutePath = path.resolve(process.cwd(), configPath);
+  const { config, fromVersion, applied } = migrateConfig(
+    await readConfigFile(absolutePath),
+    configPath
+  );
+
+  if (applied.length === 0) {
+    logger.success(`${configPath} is already at config version ${CONFIG_VERSION}`);
+    return;
+  }
+
+  const content = serializeConfigFile(
+    absolutePath,
+    config,
+    await fs.readFile(absolutePath, 'utf-8')
+  );
+  if (content === undefined) {
+    throw errors.configMigrationFailed(
+      configPath,
+      `cannot be rewritten automatically without losing its code or comments; apply these steps by hand and set "version": ${CONFIG_VERSION}: ${applied.join('; ')}`
+    );
+  }
+
+  if (options.dryRun) {
+    process.stdout.write(content);
+    return;
+  }
+
+  await fs.writeFile(absolutePath, content);
+
+  logger.success(`Migrated ${configPath} from version ${fromVersion} to ${CONFIG_VERSION}`);
+  applied.forEach((step) => {
+    logger.step(step);
+  });
+}
@@ -1,16 +1,93 @@
 import path from 'path';
-import { Command } from 'commander';
-import { runInteractivePrompts } from '../prompts/interactive.js';
-import { loadConfigFromFile, createDefaultConfig } from '../prompts/config-loader.js';
-import { answersToConfig, configToTemplateContext } from '../utils/config-builder.js';
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import { promptSaveConfig, runInteractivePrompts } from '../prompts/interactive.js';
+import {
+  loadConfigsFromFile,
+  type LoadedConfig,
+  createDefaultConfig,
+  saveConfigToFile,
+  DEFAULT_CONFIG_FILE,
+} from '../prompts/config-loader.js';
+import {
+  answersToConfig,
+  applyConfigOverrides,
+  configToTemplateContext,
+} from '../utils/config-builder.js';
 import { generateWebApp } from '../generators/web/index.js';
-import { logger } from '../utils/logger.js';
-import { displayError, withErrorHandling } from '../utils/errors.js';
+import {
+  configureLogger,
+  createPrefixedLogger,
+  isLevelEnabled,
+  logger,
+  type Logger,
+} from '../utils/logger.js';
+import { displayError, errors, GeneratorError } from '../utils/errors.js';
+import {
+  createEventLogger,
+  emitEvent,
+  errorEvent,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+} from '../utils/events.js';
 import {
   validateGenerationEnvironment,
   validateProjectNameForGeneration,
 } from '../utils/validation.js';
-import type { GenerationOptions } from '../types/config.js';
+import { CONFLICT_STRATEGIES } from '../generators/base/conflicts.js';
+import { loadPreset } from '../utils/presets.js';
+import { formatDiagnostic, validateConfig } from '../validators/config-schema.js';
+import { getSupportedValues, type SupportedOption } from '../validators/capabilities.js';
+import type {
+  BackendFeature,
+  BackendType,
+  ConfigOverrides,
+  ConflictStrategy,
+  FirebasePattern,
+  GenerationOptions,
+  OfflineMode,
+  PackageManagerType,
+  StateManagementType,
+  StylingType,
+  TestingType,
+  UILibraryType,
+  WorkspaceConfig,
+} from '../types/config.js';
+
+interface CreateOptions {
+  // Per-option overrides, see getConfigOverrides
+  backend?: string;
+  backendFeatures?: string;
+  firebasePattern?: string;
+  state?: string;
+  testing?: string;
+  ui?: string;
+  styling?: string;
+  pm?: string;
+  linting?: boolean;
+  formatting?: boolean;
+  gitHooks?: boolean;
+  pwa?: boolean;
+
+  skipInstall?: boolean;
+  preferOffline?: boolean;
+  git?: boolean; // False with --no-git
+  offline?: boolean;
+  verbose?: boolean;
+  dryRun?: boolean;
+  conflict?: ConflictStrategy; // Set when generating into an existing directory
+  saveConfig?: string; // Path to write the resolved config to
+  preset?: string;
+  parallel?: boolean; // Generate a batch concurrently
+  output?: OutputFormat; // json emits one event per line in place of text
+  debug?: boolean;
+}
+
+interface BatchResult {
+  source: string;
+  name?: string;
+  error?: unknown;
+}
 
 /**
  * Create command - Main command for generating projects
@@ -18,133 +95,509 @@ import type { GenerationOptions } from '../types/config.js';
 export function createCommand(): Command {
   return new Command('create')
     .argument('[project-name]', 'Name of the project to create')
-    .option('-c, --config <path>', 'Path to configuration file (JSON)')
+    .option(
+      '-c, --config <paths...>',
+      'Configuration files (JSON, JSONC, YAML or TypeScript); several files, or a file holding an array of configs, generate a batch'
+    )
+    .option('--parallel', 'Generate a batch of projects concurrently')
+    .addOption(
+      new Option('-p, --preset <name>', 'Start from a named preset (see "presets list")').conflicts(
+        'config'
+      )
+    )
+    .option('--backend <type>', `Override the backend (${listSupported('backend.type')})`)
+    .option('--backend-features <features>', 'Comma-separated backend features')
+    .option('--firebase-pattern <pattern>', 'Firebase pattern: client-side or server-first')
+    .option('--state <type>', `State management (${listSupported('web.stateManagement')})`)
+    .option('--testing <type>', `Testing framework (${listSupported('web.testing')})`)
+    .option('--ui <library>', `UI library (${listSupported('web.ui')})`)
+    .option('--styling <type>', `Styling (${listSupported('web.styling')})`)
+    .option('--pm <manager>', 'Package manager (npm, yarn, pnpm, bun)')
+    .option('--linting', 'Enable ESLint')
+    .option('--no-linting', 'Disable ESLint')
+    .option('--formatting', 'Enable Prettier')
+    .option('--no-formatting', 'Disable Prettier')
+    .option('--git-hooks', 'Enable Git hooks (Husky)')
+    .option('--no-git-hooks', 'Disable Git hooks (Husky)')
+    .option('--pwa', 'Make the app a PWA')
+    .option('--no-pwa', 'Make the app a plain web app')
     .option('--skip-install', 'Skip dependency installation')
-    .option('-v, --verbose', 'Verbose output')
+    .option('--prefer-offline', 'Install dependencies from the package manager cache when possible')
+    .addOption(
+      new Option('--offline', 'Install dependencies from the package manager cache only').conflicts(
+        'preferOffline'
+      )
+    )
+    .option('--no-git', 'Skip creating a git repository with an initial commit')
+    .option('--dry-run', 'Print the files that would be created without writing anything')
+    .option(
+      '--force',
+      'Generate into an existing directory, overwriting files (--conflict=overwrite)'
+    )
+    .addOption(
+      new Option('--conflict <strategy>', 'How to handle files that already exist').choices(
+        CONFLICT_STRATEGIES
+      )
+    )
+    .option('--save-config <path>', 'Save the resolved configuration as a reusable JSON file')
+    .option('-v, --verbose', 'List every file written with its source template')
+    .option('-q, --quiet', 'Only print warnings and errors')
+    .option('--silent', 'Print nothing; check the exit code')
+    .addOption(
+      new Option('--output <format>', 'Output as text, or as one JSON event per line')
+        .choices(OUTPUT_FORMATS)
+        .default('text')
+    )
     .option('--debug', 'Enable debug mode with detailed error information')
     .description('Create a new project')
     .action(async (projectName: string | undefined, options) => {
       try {
         const cwd = process.cwd();
-        const debug = options.debug || false;
+        if (options.output === 'json') {
+          // Events replace console output entirely
+          configureLogger({ level: 'silent' });
+        }
+        options.conflict = options.conflict ?? (options.force ? 'overwrite' : undefined);
+        if (options.output === 'json' && options.conflict === 'prompt') {
+          throw errors.invalidConfig(
+            '--output json needs --conflict skip, overwrite or rename, as prompts cannot be answered'
+          );
+        }
 
         // Mode 1: Config file (for AI agents)
         if (options.config) {
-          await createFromConfig(options.config, cwd, options, debug);
+          await createFromConfigs(options.config, cwd, options);
           return;
         }
 
-        // Mode 2: Quick start with project name
-        if (projectName && !options.config) {
-          await createQuickStart(projectName, cwd, options, debug);
+        // Only a batch of configs generates projects side by side
+        options.parallel = false;
+
+        // Mode 2: Quick start with project name and/or preset
+        if (projectName || options.preset) {
+          await createQuickStart(projectName, cwd, options);
           return;
         }
 
         // Mode 3: Interactive prompts (for humans)
-        await createInteractive(cwd, options, debug);
+        await createInteractive(cwd, options);
       } catch (error) {
-        displayError(error, options.debug);
+        if (options.output === 'json') {
+          emitEvent(errorEvent(error));
+        } else {
+          displayError(error, options.debug);
+        }
         process.exit(1);
       }
     });
 }
 
 /**
- * Create project from config file (AI agent mode)
+ * Create projects from config files (AI agent mode). One file with one config
+ * generates a single project; anything more is a batch.
  */
-async function createFromConfig(
-  configPath: string,
+async function createFromConfigs(
+  configPaths: string[],
+  cwd: string,
+  options: CreateOptions
+): Promise<void> {
+  const jobs: LoadedConfig[] = [];
+  for (const configPath of configPaths) {
+    getLogger(options).info(`Loading configuration from ${configPath}...`);
+    try {
+      jobs.push(...(await loadConfigsFromFile(configPath)));
+    } catch (error) {
+      // In a batch, a file that fails to load fails only its own projects
+      if (configPaths.length === 1) {
+        throw error;
+      }
+      jobs.push({ source: configPath, error });
+    }
+  }
+
+  if (jobs.length === 1) {
+    const [{ config, error }] = jobs as [LoadedConfig];
+    if (error || !config) {
+      throw error;
+    }
+    await createFromConfig(config, cwd, { ...options, parallel: false });
+    return;
+  }
+
+  await createBatch(jobs, cwd, options);
+}
+
+/**
+ * Generate every project of a batch, one at a time or concurrently. Each
+ * project is staged on its own, so a failure leaves the others in place.
+ */
+async function createBatch(
+  jobs: LoadedConfig[],
   cwd: string,
-  options: { skipInstall?: boolean; verbose?: boolean },
-  debug: boolean
+  options: CreateOptions
 ): Promise<void> {
-  logger.info(`Loading configuration from ${configPath}...`);
+  if (options.saveConfig) {
+    throw errors.invalidConfig('--save-config cannot be used when generating several projects');
+  }
+
+  // Two configs with the same name would generate into the same directory
+  const sources = new Map<string, string>();
+  for (const job of jobs) {
+    const name = job.config?.name;
+    if (name === undefined) {
+      continue;
+    }
+    if (sources.has(name)) {
+      job.error = errors.invalidConfig(
+        `"${name}" is also generated by ${sources.get(name)} in this batch`
+      );
+    } else {
+      sources.set(name, job.source);
+    }
+  }
 
-  const config = await loadConfigFromFile(configPath);
+  const run = async (job: LoadedConfig): Promise<BatchResult> => {
+    const result = { source: job.source, name: job.config?.name };
+
+    try {
+      if (job.error || !job.config) {
+        throw job.error;
+      }
+      await createFromConfig(job.config, cwd, options);
+      return result;
+    } catch (error) {
+      // Show the full error (diagnostics, suggestions) now; the summary has one line
+      if (options.output === 'json') {
+        emitEvent(errorEvent(error, result.name ?? job.source));
+      } else {
+        displayError(error, options.debug);
+      }
+      return { ...result, error };
+    }
+  };
+
+  const results: BatchResult[] = [];
+  if (options.parallel) {
+    results.push(...(await Promise.all(jobs.map(run))));
+  } else {
+    for (const job of jobs) {
+      results.push(await run(job));
+    }
+  }
+
+  if (options.output !== 'json') {
+    printBatchSummary(results, options.dryRun);
+  }
+
+  const failed = results.filter((result) => result.error).length;
+  if (failed > 0) {
+    throw errors.generationFailed(`${failed} of ${results.length} projects failed`);
+  }
+}
+
+/**
+ * Create a project from a loaded config
+ */
+async function createFromConfig(
+  loadedConfig: WorkspaceConfig,
+  cwd: string,
+  options: CreateOptions
+): Promise<void> {
+  const config = resolveConfig(loadedConfig, options);
   const templateContext = configToTemplateContext(config);
+  const log = getLogger(options, config.name);
+
+  if (options.saveConfig) {
+    await saveConfig(config, options.saveConfig, log);
+  }
 
   const targetDir = path.join(cwd, config.name);
 
   // Validate environment before starting
-  logger.step('Validating environment...');
-  await validateGenerationEnvironment(config.name, targetDir, options.skipInstall);
-  logger.success('Environment validation passed');
+  log.step('Validating environment...');
+  await validateGenerationEnvironment(
+    config.name,
+    targetDir,
+    options.skipInstall,
+    !!options.conflict
+  );
+  log.success('Environment validation passed');
 
   const generationOptions: GenerationOptions = {
     targetDir,
     config,
     templateContext,
     skipInstall: options.skipInstall,
-    verbose: options.verbose,
+    offline: getOfflineMode(options),
+    git: options.git,
+    dryRun: options.dryRun,
+    conflict: options.conflict,
   };
 
-  // Generate with error handling and rollback
-  await withErrorHandling(async () => await generateWebApp(generationOptions), targetDir, debug);
+  await generateProject(generationOptions, options);
 }
 
 /**
- * Create project with quick start defaults
+ * Create project with quick start defaults, or from a named preset
  */
 async function createQuickStart(
-  projectName: string,
+  projectName: string | undefined,
   cwd: string,
-  options: { skipInstall?: boolean; verbose?: boolean },
-  debug: boolean
+  options: CreateOptions
 ): Promise<void> {
-  logger.info(`Creating ${projectName} with default configuration...`);
+  // "." generates into the current directory, named after it
+  const inCurrentDir = projectName === '.';
+  const requestedName = inCurrentDir ? path.basename(cwd) : projectName;
+
+  // A preset supplies everything but the name, which comes from the argument when given
+  const config = resolveConfig(
+    options.preset
+      ? await loadPreset(options.preset, requestedName)
+      : createDefaultConfig(requestedName!),
+    options
+  );
+  const name = config.name;
+  const log = getLogger(options, name);
+
+  log.info(
+    `Creating ${name} with ${options.preset ? `the "${options.preset}" preset` : 'default configuration'}...`
+  );
 
   // Validate project name
-  await validateProjectNameForGeneration(projectName, cwd);
+  await validateProjectNameForGeneration(
+    name,
+    inCurrentDir ? path.dirname(cwd) : cwd,
+    !!options.conflict
+  );
 
-  const config = createDefaultConfig(projectName);
   const templateContext = configToTemplateContext(config);
 
-  const targetDir = path.join(cwd, config.name);
+  if (options.saveConfig) {
+    await saveConfig(config, options.saveConfig, log);
+  }
+
+  const targetDir = inCurrentDir ? cwd : path.join(cwd, config.name);
 
   // Validate environment before starting
-  logger.step('Validating environment...');
-  await validateGenerationEnvironment(config.name, targetDir, options.skipInstall);
-  logger.success('Environment validation passed');
+  log.step('Validating environment...');
+  await validateGenerationEnvironment(
+    config.name,
+    targetDir,
+    options.skipInstall,
+    !!options.conflict
+  );
+  log.success('Environment validation passed');
 
   const generationOptions: GenerationOptions = {
     targetDir,
     config,
     templateContext,
     skipInstall: options.skipInstall,
-    verbose: options.verbose,
+    offline: getOfflineMode(options),
+    git: options.git,
+    dryRun: options.dryRun,
+    conflict: options.conflict,
   };
 
-  // Generate with error handling and rollback
-  await withErrorHandling(async () => await generateWebApp(generationOptions), targetDir, debug);
+  await generateProject(generationOptions, options);
 }
 
 /**
  * Create project with interactive prompts (human mode)
  */
-async function createInteractive(
-  cwd: string,
-  options: { skipInstall?: boolean; verbose?: boolean },
-  debug: boolean
-): Promise<void> {
-  const answers = await runInteractivePrompts(cwd);
+async function createInteractive(cwd: string, options: CreateOptions): Promise<void> {
+  if (options.output === 'json') {
+    throw errors.invalidConfig(
+      '--output json needs --config, --preset or a project name, as prompts cannot be answered'
+    );
+  }
+
+  const answers = await runInteractivePrompts(cwd, !!options.conflict);
   const config = answersToConfig(answers);
   const templateContext = configToTemplateContext(config);
+  const log = getLogger(options, config.name);
+
+  // Offer to keep the answers so the same project can be generated non-interactively
+  const saveConfigPath = options.saveConfig ?? (await promptSaveConfig(DEFAULT_CONFIG_FILE));
+  if (saveConfigPath) {
+    await saveConfig(config, saveConfigPath, log);
+  }
 
   const targetDir = path.join(cwd, config.name);
 
   // Validate environment before starting
-  logger.step('Validating environment...');
-  await validateGenerationEnvironment(config.name, targetDir, options.skipInstall);
-  logger.success('Environment validation passed');
+  log.step('Validating environment...');
+  await validateGenerationEnvironment(
+    config.name,
+    targetDir,
+    options.skipInstall,
+    !!options.conflict
+  );
+  log.success('Environment validation passed');
 
   const generationOptions: GenerationOptions = {
     targetDir,
     config,
     templateContext,
     skipInstall: options.skipInstall,
-    verbose: options.verbose,
+    offline: getOfflineMode(options),
+    git: options.git,
+    dryRun: options.dryRun,
+    conflict: options.conflict,
   };
 
-  // Generate with error handling and rollback
-  await withErrorHandling(async () => await generateWebApp(generationOptions), targetDir, debug);
+  await generateProject(generationOptions, options);
+}
+
+/**
+ * Generate the project; with --output json, progress and the summary are events,
+ * and in a parallel batch every line is labelled with its project
+ */
+async function generateProject(
+  generationOptions: GenerationOptions,
+  options: CreateOptions
+): Promise<void> {
+  if (options.output !== 'json' && !options.parallel) {
+    await generateWebApp(generationOptions);
+    return;
+  }
+
+  const project = generationOptions.config.name;
+  const result = await generateWebApp({
+    ...generationOptions,
+    logger: getLogger(options, project),
+    exitOnInterrupt: true,
+  });
+
+  if (options.output !== 'json') {
+    return;
+  }
+
+  emitEvent({
+    project,
+    type: 'completed',
+    summary: {
+      targetDir: result.targetDir,
+      files: result.files.length,
+      conflicts: result.conflicts.length,
+      dryRun: result.dryRun,
+      durationMs: result.durationMs,
+    },
+  });
+}
+
+/**
+ * Save the config so it can be passed to --config later
+ */
+async function saveConfig(config: WorkspaceConfig, configPath: string, log: Logger): Promise<void> {
+  const savedPath = await saveConfigToFile(config, configPath);
+  log.success(`Configuration saved to ${savedPath}`);
+}
+
+/**
+ * Layer the per-option flags over the base config and validate the result
+ */
+function resolveConfig(base: WorkspaceConfig, options: CreateOptions): WorkspaceConfig {
+  const config = applyConfigOverrides(base, getConfigOverrides(options));
+
+  const validation = validateConfig(config);
+  if (!validation.valid) {
+    throw errors.configValidationFailed('the resolved configuration', validation.diagnostics);
+  }
+
+  logger.debug(`Resolved configuration: ${JSON.stringify(config)}`);
+
+  validation.diagnostics.forEach((diagnostic) => {
+    if (options.output === 'json') {
+      emitEvent({
+        project: config.name,
+        type: 'warning',
+        message: formatDiagnostic(diagnostic),
+        diagnostic,
+      });
+    } else {
+      logger.warning(formatDiagnostic(diagnostic));
+    }
+  });
+
+  return config;
+}
+
+/**
+ * Collect the per-option flags; values are checked by validateConfig afterwards
+ */
+function getConfigOverrides(options: CreateOptions): ConfigOverrides {
+  return {
+    backend: options.backend as BackendType | undefined,
+    backendFeatures: options.backendFeatures
+      ?.split(',')
+      .map((f) => f.trim())
+      .filter(Boolean) as BackendFeature[] | undefined,
+    firebasePattern: options.firebasePattern as FirebasePattern | undefined,
+    stateManagement: options.state as StateManagementType | undefined,
+    testing: options.testing as TestingType | undefined,
+    ui: options.ui as UILibraryType | undefined,
+    styling: options.styling as StylingType | undefined,
+    packageManager: options.pm as PackageManagerType | undefined,
+    linting: options.linting,
+    formatting: options.formatting,
+    gitHooks: options.gitHooks,
+    pwa: options.pwa,
+  };
+}
+
+/**
+ * The install mode for --offline and --prefer-offline
+ */
+function getOfflineMode(options: CreateOptions): OfflineMode | undefined {
+  if (options.offline) {
+    return 'only';
+  }
+  return options.preferOffline ? 'prefer' : undefined;
+}
+
+/**
+ * Where progress goes: the terminal, labelled by project in a parallel batch,
+ * or events for --output json
+ */
+function getLogger(options: CreateOptions, project?: string): Logger {
+  if (options.output === 'json') {
+    return createEventLogger(project);
+  }
+  return options.parallel && project !== undefined ? createPrefixedLogger(project) : logger;
+}
+
+/**
+ * The implemented values of an option, for flag help text
+ */
+function listSupported(option: SupportedOption): string {
+  return getSupportedValues(option).join(', ');
+}
+
+/**
+ * One row per project of a batch: where it was generated, or why it failed
+ */
+function printBatchSummary(results: BatchResult[], dryRun?: boolean): void {
+  if (!isLevelEnabled('normal')) {
+    return;
+  }
+
+  logger.header('Batch summary');
+
+  const width = Math.max(...results.map((result) => (result.name ?? result.source).length));
+  results.forEach((result) => {
+    const label = (result.name ?? result.source).padEnd(width);
+
+    if (result.error) {
+      const code = result.error instanceof GeneratorError ? ` (${result.error.code})` : '';
+      const message = result.error instanceof Error ? result.error.message : String(result.error);
+      console.log(`  ${chalk.red('✗')} ${chalk.bold(label)}  ${chalk.red(`${message}${code}`)}`);
+      return;
+    }
+
+    const status = dryRun ? 'planned' : 'created';
+    console.log(`  ${chalk.green('✓')} ${chalk.bold(label)}  ${status} in ./${result.name}`);
+  });
+
+  logger.newLine();
 }
@@ -0,0 +1,86 @@
+import path from 'path';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { diagnoseProject, type DoctorCheck } from '../generators/web/doctor.js';
+import { logger } from '../utils/logger.js';
+import { displayError } from '../utils/errors.js';
+
+/**
+ * Section titles for each check, in display order
+ */
+const CHECK_TITLES: Record<DoctorCheck, string> = {
+  'missing-file': 'Missing files',
+  'disabled-feature-file': 'Files for disabled features',
+  dependency: 'Dependencies',
+  env: 'Environment variables',
+};
+
+/**
+ * Doctor command - Detect drift between a project and its config
+ */
+export function doctorCommand(): Command {
+  return new Command('doctor')
+    .option('-d, --dir <path>', 'Project directory (defaults to the current directory)')
+    .option('--json', 'Print the report as JSON')
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description('Check a generated project for drift from its config')
+    .action(async (options) => {
+      try {
+        const healthy = await runDoctor(options);
+        if (!healthy) {
+          process.exit(1);
+        }
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Diagnose the project and print the report; returns false when errors were found
+ */
+async function runDoctor(options: { dir?: string; json?: boolean }): Promise<boolean> {
+  const targetDir = path.resolve(process.cwd(), options.dir || '.');
+
+  const report = await diagnoseProject(targetDir);
+  const errorCount = report.issues.filter((issue) => issue.severity === 'error').length;
+  const warningCount = report.issues.length - errorCount;
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return errorCount === 0;
+  }
+
+  logger.header(`Checking ${path.basename(targetDir)}`);
+
+  if (report.configSource === 'inferred') {
+    logger.warning('No generation manifest found - config inferred from the project');
+    logger.newLine();
+  }
+
+  for (const check of Object.keys(CHECK_TITLES) as DoctorCheck[]) {
+    const issues = report.issues.filter((issue) => issue.check === check);
+
+    if (issues.length === 0) {
+      logger.success(CHECK_TITLES[check]);
+      continue;
+    }
+
+    logger.step(CHECK_TITLES[check]);
+    issues.forEach((issue) => {
+      const marker = issue.severity === 'error' ? chalk.red('✖') : chalk.yellow('⚠');
+      console.log(`  ${marker} ${issue.message}`);
+    });
+  }
+
+  logger.newLine();
+
+  if (report.issues.length === 0) {
+    logger.success('No drift detected');
+  } else {
+    logger.info(`${errorCount} error(s), ${warningCount} warning(s)`);
+  }
+
+  return errorCount === 0;
+}
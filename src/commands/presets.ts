@@ -0,0 +1,55 @@
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { getUserPresetsDir, listPresets } from '../utils/presets.js';
+import { logger } from '../utils/logger.js';
+import { displayError } from '../utils/errors.js';
+
+/**
+ * Presets command - Inspect the named presets usable with create --preset
+ */
+export function presetsCommand(): Command {
+  return new Command('presets')
+    .description('Inspect the presets available to create --preset')
+    .addCommand(presetsListCommand());
+}
+
+/**
+ * presets list - Show built-in and user presets
+ */
+function presetsListCommand(): Command {
+  return new Command('list')
+    .option('--json', 'Print the presets as JSON')
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description('List built-in and user presets')
+    .action(async (options) => {
+      try {
+        await runPresetsList(options);
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Print every preset with its source and description
+ */
+async function runPresetsList(options: { json?: boolean }): Promise<void> {
+  const presets = await listPresets();
+
+  if (options.json) {
+    console.log(JSON.stringify(presets, null, 2));
+    return;
+  }
+
+  logger.header('Presets');
+
+  const width = Math.max(...presets.map((preset) => preset.name.length));
+  presets.forEach((preset) => {
+    const source = preset.source === 'user' ? chalk.cyan(' (user)') : '';
+    console.log(`  ${chalk.bold(preset.name.padEnd(width))}  ${preset.description}${source}`);
+  });
+
+  logger.newLine();
+  logger.tip(`Add your own presets as JSON config files in ${getUserPresetsDir()}`);
+}
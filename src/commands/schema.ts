@@ -0,0 +1,41 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { Command } from 'commander';
+import { loadConfigSchema } from '../validators/config-schema.js';
+import { logger } from '../utils/logger.js';
+import { displayError } from '../utils/errors.js';
+
+/**
+ * Schema command - Print the JSON Schema for config files, for editors and agents
+ */
+export function schemaCommand(): Command {
+  return new Command('schema')
+    .option('-o, --output <path>', 'Write the schema to a file instead of stdout')
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description('Print the JSON Schema that config files are validated against')
+    .action(async (options) => {
+      try {
+        await runSchema(options);
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Print the schema, or write it where a "$schema" reference can point at it
+ */
+async function runSchema(options: { output?: string }): Promise<void> {
+  const schema = loadConfigSchema();
+
+  if (!options.output) {
+    console.log(JSON.stringify(schema, null, 2));
+    return;
+  }
+
+  const outputPath = path.resolve(process.cwd(), options.output);
+  await fs.outputJson(outputPath, schema, { spaces: 2 });
+  logger.success(`Schema written to ${outputPath}`);
+  logger.tip(`Reference it from a config file with "$schema": "${options.output}"`);
+}
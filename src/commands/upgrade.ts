@@ -0,0 +1,82 @@
+import path from 'path';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { upgradeProject, type UpgradeStatus } from '../generators/web/upgrade.js';
+import { logger } from '../utils/logger.js';
+import { displayError, errors } from '../utils/errors.js';
+
+/**
+ * How each upgrade status is shown, in display order
+ */
+const STATUS_LABELS: Record<Exclude<UpgradeStatus, 'up-to-date'>, string> = {
+  added: chalk.green('added     '),
+  updated: chalk.green('updated   '),
+  merged: chalk.cyan('merged    '),
+  kept: chalk.gray('kept      '),
+  skipped: chalk.gray('skipped   '),
+  conflict: chalk.red('conflict  '),
+};
+
+/**
+ * Upgrade command - Re-render templates and merge them into an existing project
+ */
+export function upgradeCommand(): Command {
+  return new Command('upgrade')
+    .option('-d, --dir <path>', 'Project directory (defaults to the current directory)')
+    .option('--dry-run', 'Show what would change without writing any files')
+    .option('--debug', 'Enable debug mode with detailed error information')
+    .description('Upgrade a generated project to the current templates')
+    .action(async (options) => {
+      try {
+        await runUpgrade(options);
+      } catch (error) {
+        displayError(error, options.debug);
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Upgrade the project in the target directory
+ */
+async function runUpgrade(options: { dir?: string; dryRun?: boolean }): Promise<void> {
+  const targetDir = path.resolve(process.cwd(), options.dir || '.');
+
+  const result = await upgradeProject({ targetDir, dryRun: options.dryRun });
+
+  logger.header(
+    `Upgrading from ${result.fromVersion} to ${result.toVersion}${options.dryRun ? ' (dry run)' : ''}`
+  );
+
+  for (const status of Object.keys(STATUS_LABELS) as (keyof typeof STATUS_LABELS)[]) {
+    result.files
+      .filter((file) => file.status === status)
+      .forEach((file) => console.log(`  ${STATUS_LABELS[status]} ${file.path}`));
+  }
+
+  const upToDate = result.files.filter((file) => file.status === 'up-to-date').length;
+  logger.fileCount(upToDate, 'files already up to date');
+
+  if (result.obsolete.length > 0) {
+    logger.newLine();
+    logger.warning('No longer generated (left in place):');
+    result.obsolete.forEach((file) => console.log(`  • ${file}`));
+  }
+
+  const conflicts = result.files
+    .filter((file) => file.status === 'conflict')
+    .map((file) => file.path);
+
+  logger.newLine();
+
+  if (options.dryRun) {
+    logger.info('Dry run - no files were written');
+    return;
+  }
+
+  if (conflicts.length > 0) {
+    throw errors.upgradeConflicts(conflicts);
+  }
+
+  logger.success(`Project upgraded to ${result.toVersion}`);
+}
@@ -0,0 +1,49 @@
+import type { WorkspaceConfigFile } from './types/config.js';
+
+/**
+ * Helpers for TypeScript and ESM config files (awg.config.ts / awg.config.mjs)
+ */
+
+export type {
+  WorkspaceConfig,
+  WorkspaceConfigFile,
+  WorkspaceType,
+  PlatformType,
+  FrameworkType,
+  StylingType,
+  UILibraryType,
+  TestingType,
+  BackendType,
+  BackendFeature,
+  FirebasePattern,
+  StateManagementType,
+  PackageManagerType,
+  CICDPlatform,
+  ConfigHooks,
+} from './types/config.js';
+
+/**
+ * Every field optional at any depth; arrays are given whole
+ */
+type DeepPartial<T> = T extends unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * A config as written in a file: anything left out is filled from the defaults
+ * or inherited through "extends"
+ */
+export type ConfigInput = DeepPartial<WorkspaceConfigFile>;
+
+/**
+ * Identity function that gives config files type checking and autocomplete
+ *
+ * @example
+ * import { defineConfig } from 'app-workspace-generator/config';
+ * export default defineConfig({ name: 'my-app', backend: { type: 'firebase' } });
+ */
+export function defineConfig(config: ConfigInput): ConfigInput {
+  return config;
+}
@@ -0,0 +1,100 @@
+import path from 'path';
+import fs from 'fs-extra';
+import inquirer from 'inquirer';
+import type { ConflictStrategy } from '../../types/config.js';
+
+/**
+ * Conflict handling when generating over files that already exist
+ */
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ['skip', 'overwrite', 'prompt', 'rename'];
+
+export type FileWriteAction = 'created' | 'overwritten' | 'skipped' | 'renamed';
+
+/**
+ * What happened to a planned file that already existed
+ */
+export interface FileConflict {
+  path: string; // Planned path, relative to project root
+  action: Exclude<FileWriteAction, 'created'>;
+  writtenTo?: string; // Where the generated file went when renamed
+}
+
+export interface ConflictPolicy {
+  strategy: ConflictStrategy;
+  targetDir: string; // Final project directory, checked for existing files
+  conflicts: FileConflict[];
+}
+
+export interface ResolvedWrite {
+  action: FileWriteAction;
+  destination: string | null; // Relative path to write to, null when skipped
+}
+
+export function createConflictPolicy(
+  strategy: ConflictStrategy,
+  targetDir: string
+): ConflictPolicy {
+  return { strategy, targetDir, conflicts: [] };
+}
+
+/**
+ * Decide where a planned file is written, applying the policy when it already exists
+ */
+export async function resolveFileWrite(
+  policy: ConflictPolicy | undefined,
+  destination: string
+): Promise<ResolvedWrite> {
+  if (!policy || !(await fs.pathExists(path.join(policy.targetDir, destination)))) {
+    return { action: 'created', destination };
+  }
+
+  const strategy =
+    policy.strategy === 'prompt' ? await promptForStrategy(destination) : policy.strategy;
+
+  if (strategy === 'skip') {
+    policy.conflicts.push({ path: destination, action: 'skipped' });
+    return { action: 'skipped', destination: null };
+  }
+
+  if (strategy === 'rename') {
+    const renamed = await getRenamedPath(policy.targetDir, destination);
+    policy.conflicts.push({ path: destination, action: 'renamed', writtenTo: renamed });
+    return { action: 'renamed', destination: renamed };
+  }
+
+  policy.conflicts.push({ path: destination, action: 'overwritten' });
+  return { action: 'overwritten', destination };
+}
+
+/**
+ * First free `<file>.awg-new[-N]` path next to an existing file
+ */
+async function getRenamedPath(targetDir: string, destination: string): Promise<string> {
+  let candidate = `${destination}.awg-new`;
+  for (let i = 2; await fs.pathExists(path.join(targetDir, candidate)); i++) {
+    candidate = `${destination}.awg-new-${i}`;
+  }
+  return candidate;
+}
+
+/**
+ * Ask what to do with a single existing file
+ */
+async function promptForStrategy(
+  destination: string
+): Promise<Exclude<ConflictStrategy, 'prompt'>> {
+  const { strategy } = await inquirer.prompt<{ strategy: Exclude<ConflictStrategy, 'prompt'> }>([
+    {
+      type: 'list',
+      name: 'strategy',
+      message: `${destination} already exists. What should happen?`,
+      choices: [
+        { name: 'Keep the existing file', value: 'skip' },
+        { name: 'Overwrite it', value: 'overwrite' },
+        { name: 'Write the generated file next to it (.awg-new)', value: 'rename' },
+      ],
+    },
+  ]);
+  return strategy;
+}
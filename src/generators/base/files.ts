@@ -1,32 +1,38 @@
 import path from 'path';
-import ora from 'ora';
-import { writeFile, copyFile, copyDir, ensureDir } from '../../utils/file-system.js';
+import fs from 'fs-extra';
+import { copyDir, readFile } from '../../utils/file-system.js';
 import { compileTemplateFile, getTemplatePath } from './templates.js';
+import { hashContent, type GeneratedFile } from './manifest.js';
+import { diskOutput, type OutputFileSystem } from './output.js';
+import { resolveFileWrite, type ConflictPolicy, type FileWriteAction } from './conflicts.js';
 import type { TemplateContext } from '../../types/config.js';
-import { logger } from '../../utils/logger.js';
+import { logger, startSpinner, type Logger } from '../../utils/logger.js';
 
 /**
  * File generation utilities
  */
 
 export interface FileOperation {
-  type: 'template' | 'copy' | 'directory';
+  type: 'template' | 'copy' | 'directory' | 'content';
   source: string; // Relative to templates directory
   destination: string; // Relative to project root
   context?: TemplateContext;
+  content?: string; // Inline file content for 'content' operations
 }
 
 /**
- * Generate a single file from template
+ * Generate a single file from template, returning the rendered content
  */
 export async function generateFileFromTemplate(
   templatePath: string,
   destinationPath: string,
-  context: TemplateContext
-): Promise<void> {
+  context: TemplateContext,
+  output: OutputFileSystem = diskOutput
+): Promise<string> {
   try {
     const content = await compileTemplateFile(templatePath, context);
-    await writeFile(destinationPath, content);
+    await output.writeFile(destinationPath, content);
+    return content;
   } catch (error) {
     throw new Error(
       `Failed to generate file from template "${templatePath}": ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -37,9 +43,13 @@ export async function generateFileFromTemplate(
 /**
  * Copy a static file
  */
-export async function copyStaticFile(sourcePath: string, destinationPath: string): Promise<void> {
+export async function copyStaticFile(
+  sourcePath: string,
+  destinationPath: string,
+  output: OutputFileSystem = diskOutput
+): Promise<void> {
   try {
-    await copyFile(sourcePath, destinationPath);
+    await output.copyFile(sourcePath, destinationPath);
   } catch (error) {
     throw new Error(
       `Failed to copy file from "${sourcePath}" to "${destinationPath}": ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -66,9 +76,12 @@ export async function copyStaticDirectory(
 /**
  * Create an empty directory
  */
-export async function createDirectory(dirPath: string): Promise<void> {
+export async function createDirectory(
+  dirPath: string,
+  output: OutputFileSystem = diskOutput
+): Promise<void> {
   try {
-    await ensureDir(dirPath);
+    await output.ensureDir(dirPath);
   } catch (error) {
     throw new Error(
       `Failed to create directory "${dirPath}": ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -77,48 +90,172 @@ export async function createDirectory(dirPath: string): Promise<void> {
 }
 
 /**
- * Execute multiple file operations with progress indicator
+ * Render the content a file operation would write, without touching disk.
+ * Returns null for directory operations.
+ */
+export async function renderFileOperation(operation: FileOperation): Promise<string | null> {
+  switch (operation.type) {
+    case 'template':
+      if (!operation.context) {
+        throw new Error('Template operation requires context');
+      }
+      return await compileTemplateFile(operation.source, operation.context);
+
+    case 'copy':
+      return await readFile(getTemplatePath(operation.source));
+
+    case 'content':
+      return operation.content ?? '';
+
+    case 'directory':
+      return null;
+  }
+}
+
+/**
+ * Execute multiple file operations with progress indicator.
+ * Files that already exist are handled by the conflict policy, when given.
+ * Progress goes to log when given, otherwise to a terminal spinner or `logger`.
+ * Returns a record of every file written, for the generation manifest.
  */
 export async function executeFileOperations(
   operations: FileOperation[],
   targetDir: string,
-  section: string
-): Promise<void> {
-  const spinner = ora(`${section}...`).start();
+  section: string,
+  output: OutputFileSystem = diskOutput,
+  conflicts?: ConflictPolicy,
+  log?: Logger
+): Promise<GeneratedFile[]> {
+  const spinner = startProgress(`${section}...`, log);
+  const files: GeneratedFile[] = [];
+  const actions: FileWriteAction[] = [];
 
   try {
     for (const operation of operations) {
-      const destPath = path.join(targetDir, operation.destination);
+      if (operation.type === 'directory') {
+        await createDirectory(path.join(targetDir, operation.destination), output);
+        continue;
+      }
+
+      // Prompting needs the terminal to itself
+      const prompting = conflicts?.strategy === 'prompt';
+      if (prompting) {
+        spinner.pause();
+      }
+      const { action, destination } = await resolveFileWrite(conflicts, operation.destination);
+      if (prompting) {
+        spinner.resume();
+      }
+
+      actions.push(action);
+      if (destination === null) {
+        continue;
+      }
+
+      const destPath = path.join(targetDir, destination);
+      let hash: string;
 
       switch (operation.type) {
         case 'template':
           if (!operation.context) {
             throw new Error('Template operation requires context');
           }
-          await generateFileFromTemplate(operation.source, destPath, operation.context);
+          const rendered = await generateFileFromTemplate(
+            operation.source,
+            destPath,
+            operation.context,
+            output
+          );
+          hash = hashContent(rendered);
           break;
 
         case 'copy':
           const srcPath = getTemplatePath(operation.source);
-          await copyStaticFile(srcPath, destPath);
+          await copyStaticFile(srcPath, destPath, output);
+          hash = hashContent(await fs.readFile(srcPath));
           break;
 
-        case 'directory':
-          await createDirectory(destPath);
+        case 'content':
+          if (operation.content === undefined) {
+            throw new Error('Content operation requires content');
+          }
+          await output.writeFile(destPath, operation.content);
+          hash = hashContent(operation.content);
           break;
 
         default:
           throw new Error(`Unknown operation type: ${(operation as FileOperation).type}`);
       }
+
+      (log ?? logger).file?.(
+        destination,
+        action,
+        operation.type === 'content' ? null : operation.source
+      );
+
+      // Renamed files sit next to the user's file and are not tracked
+      if (action !== 'renamed') {
+        files.push({
+          path: operation.destination,
+          source: operation.type === 'content' ? null : operation.source,
+          hash,
+        });
+      }
     }
 
-    spinner.succeed(section);
+    spinner.succeed(`${section}${describeActions(actions)}`);
+    return files;
   } catch (error) {
     spinner.fail(`${section} failed`);
     throw error;
   }
 }
 
+interface Progress {
+  pause(): void;
+  resume(): void;
+  succeed(text: string): void;
+  fail(text: string): void;
+}
+
+/**
+ * Show progress as a terminal spinner, or as plain messages when given a logger
+ * or when spinners are off
+ */
+function startProgress(text: string, log?: Logger): Progress {
+  const spinner = log ? undefined : startSpinner(text);
+
+  if (!spinner) {
+    const target = log ?? logger;
+    target.step(text);
+    return {
+      pause: () => undefined,
+      resume: () => undefined,
+      succeed: (message) => target.success(message),
+      fail: (message) => target.error(message),
+    };
+  }
+
+  return {
+    pause: () => spinner.stop(),
+    resume: () => spinner.start(),
+    succeed: (message) => spinner.succeed(message),
+    fail: (message) => spinner.fail(message),
+  };
+}
+
+/**
+ * Summarize how existing files were handled, e.g. " (2 skipped, 1 overwritten)"
+ */
+function describeActions(actions: FileWriteAction[]): string {
+  const counts = (['overwritten', 'skipped', 'renamed'] as const)
+    .map((action) => ({ action, count: actions.filter((a) => a === action).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ action, count }) => `${count} ${action}`);
+
+  return counts.length > 0 ? ` (${counts.join(', ')})` : '';
+}
+
 /**
  * Generate file with spinner feedback
  */
@@ -126,7 +263,7 @@ export async function generateFile(
   description: string,
   generator: () => Promise<void>
 ): Promise<void> {
-  const spinner = ora(description).start();
+  const spinner = startProgress(description);
   try {
     await generator();
     spinner.succeed(description);
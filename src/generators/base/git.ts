@@ -0,0 +1,73 @@
+import { errors } from '../../utils/errors.js';
+import type { Logger } from '../../utils/logger.js';
+import { runCommand, tailOutput } from '../../utils/process.js';
+
+/**
+ * Git repository setup for a freshly generated project
+ */
+
+export const DEFAULT_BRANCH = 'main';
+
+// Conventional commit that passes the generated commitlint rules
+export const INITIAL_COMMIT_MESSAGE = 'chore: initial commit from app-workspace-generator';
+
+// Used only when the user has no git identity configured
+const FALLBACK_IDENTITY = [
+  '-c',
+  'user.name=App Workspace Generator',
+  '-c',
+  'user.email=awg@localhost',
+];
+
+/**
+ * Create a repository in dir on the default branch. Returns false, and does
+ * nothing, when dir is already inside a work tree or git is not installed.
+ */
+export async function initRepository(dir: string, log: Logger): Promise<boolean> {
+  let insideWorkTree: boolean;
+  try {
+    const { exitCode, output } = await runCommand('git', ['rev-parse', '--is-inside-work-tree'], {
+      cwd: dir,
+    });
+    insideWorkTree = exitCode === 0 && output.trim() === 'true';
+  } catch {
+    log.warning('git is not installed, skipping repository setup');
+    return false;
+  }
+
+  if (insideWorkTree) {
+    log.info('Already inside a git repository, skipping git init');
+    return false;
+  }
+
+  log.step('Initializing git repository...');
+  await git(dir, ['init', '--quiet']);
+  await git(dir, ['symbolic-ref', 'HEAD', `refs/heads/${DEFAULT_BRANCH}`]);
+  return true;
+}
+
+/**
+ * Stage every file and create the initial commit. Hooks are skipped: they
+ * would lint the whole tree and need installed dependencies.
+ */
+export async function commitInitialProject(dir: string, log: Logger): Promise<void> {
+  await git(dir, ['add', '--all']);
+
+  const { output: email } = await runCommand('git', ['config', 'user.email'], { cwd: dir });
+  const identity = email.trim() ? [] : FALLBACK_IDENTITY;
+  await git(dir, [...identity, 'commit', '--quiet', '--no-verify', '-m', INITIAL_COMMIT_MESSAGE]);
+
+  log.success(`Git repository initialized on ${DEFAULT_BRANCH} with an initial commit`);
+}
+
+/**
+ * Run a git command, throwing with its output when it fails
+ */
+async function git(dir: string, args: string[]): Promise<void> {
+  const { exitCode, output } = await runCommand('git', args, { cwd: dir });
+  if (exitCode !== 0) {
+    throw errors.gitSetupFailed(
+      new Error(`git ${args.join(' ')} exited with code ${exitCode}\n${tailOutput(output)}`)
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import path from 'path';
+import { errors } from '../../utils/errors.js';
+import type { Logger } from '../../utils/logger.js';
+import { runCommand, tailOutput } from '../../utils/process.js';
+import type { ConfigHooks, HookPhase, TemplateContext } from '../../types/config.js';
+
+/**
+ * Lifecycle hooks declared in the config (hooks.preGenerate etc.)
+ */
+
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+export interface HookRunOptions {
+  projectDir: string; // Final project directory, passed as AWG_PROJECT_DIR
+  stagingDir?: string; // Where files are being written, passed as AWG_STAGING_DIR
+  context: TemplateContext;
+  log: Logger;
+  stream?: boolean; // Echo hook output to the terminal
+}
+
+/**
+ * Run the hooks of one phase in order, in the staging directory when given and
+ * the project directory otherwise. The first failure throws HOOK_FAILED with
+ * the hook's output and stops the rest.
+ */
+export async function runHooks(
+  phase: HookPhase,
+  hooks: ConfigHooks | undefined,
+  options: HookRunOptions
+): Promise<void> {
+  for (const hook of hooks?.[phase] ?? []) {
+    options.log.step(`Running ${phase} hook: ${hook}`);
+
+    const isModule = isModuleHook(hook);
+    let result;
+    try {
+      result = await runCommand(
+        isModule ? process.execPath : hook,
+        isModule ? [path.resolve(hook)] : [],
+        {
+          cwd: options.stagingDir ?? options.projectDir,
+          shell: !isModule,
+          stream: options.stream,
+          env: {
+            AWG_HOOK: phase,
+            AWG_PROJECT_DIR: options.projectDir,
+            ...(options.stagingDir && { AWG_STAGING_DIR: options.stagingDir }),
+            AWG_TEMPLATE_CONTEXT: JSON.stringify(options.context),
+          },
+        }
+      );
+    } catch (error) {
+      throw errors.hookFailed(phase, hook, `could not be started: ${(error as Error).message}`);
+    }
+
+    if (result.exitCode !== 0) {
+      throw errors.hookFailed(
+        phase,
+        hook,
+        `exited with code ${result.exitCode}`,
+        tailOutput(result.output)
+      );
+    }
+  }
+}
+
+/**
+ * Whether a hook names a local module rather than a shell command
+ */
+export function isModuleHook(hook: string): boolean {
+  return MODULE_EXTENSIONS.includes(path.extname(hook)) && !/\s/.test(hook.trim());
+}
@@ -0,0 +1,81 @@
+import { errors } from '../../utils/errors.js';
+import { logger, startSpinner, type Logger } from '../../utils/logger.js';
+import { runCommand, tailOutput } from '../../utils/process.js';
+import type { OfflineMode, PackageManagerType } from '../../types/config.js';
+
+/**
+ * Dependency installation with the project's package manager
+ */
+
+export interface InstallCommand {
+  command: string;
+  args: string[];
+}
+
+const OFFLINE_FLAGS: Record<OfflineMode, string> = {
+  prefer: '--prefer-offline',
+  only: '--offline',
+};
+
+/**
+ * The install command line for a package manager. Throws for offline modes the
+ * package manager does not have, so callers can check before generating.
+ */
+export function getInstallCommand(
+  packageManager: PackageManagerType,
+  offline?: OfflineMode
+): InstallCommand {
+  if (offline && packageManager === 'bun') {
+    throw errors.invalidConfig(`bun has no ${OFFLINE_FLAGS[offline]} install mode`);
+  }
+
+  return {
+    command: packageManager,
+    args: ['install', ...(offline ? [OFFLINE_FLAGS[offline]] : [])],
+  };
+}
+
+/**
+ * Install dependencies in targetDir. Package manager output is shown live when
+ * stream is set, otherwise kept for the error. Failures throw
+ * DEPENDENCY_INSTALLATION_FAILED and leave the generated files in place.
+ */
+export async function installDependencies(
+  targetDir: string,
+  install: InstallCommand,
+  options: { stream?: boolean; log?: Logger } = {}
+): Promise<void> {
+  const commandLine = [install.command, ...install.args].join(' ');
+  const text = `Installing dependencies (${commandLine})...`;
+  const spinner = options.log || options.stream ? undefined : startSpinner(text);
+  const log = options.log ?? logger;
+  if (!spinner) {
+    log.step(text);
+  }
+
+  let exitCode: number;
+  let output: string;
+  try {
+    ({ exitCode, output } = await runCommand(install.command, install.args, {
+      cwd: targetDir,
+      stream: options.stream,
+    }));
+  } catch (error) {
+    spinner?.fail('Dependency installation failed');
+    throw errors.dependencyInstallationFailed(error as Error, commandLine);
+  }
+
+  if (exitCode !== 0) {
+    spinner?.fail('Dependency installation failed');
+    throw errors.dependencyInstallationFailed(
+      new Error(`${commandLine} exited with code ${exitCode}\n${tailOutput(output)}`),
+      commandLine
+    );
+  }
+
+  if (spinner) {
+    spinner.succeed('Dependencies installed');
+  } else {
+    log.success('Dependencies installed');
+  }
+}
@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+import { diskOutput, type OutputFileSystem } from './output.js';
+import { migrateConfig } from '../../prompts/config-migrations.js';
+import type { WorkspaceConfig } from '../../types/config.js';
+
+/**
+ * Generation manifest - records how a project was generated so that later
+ * commands (add, upgrade, doctor) can reason about it.
+ *
+ * Next to the manifest, base.json keeps the pristine content of every generated
+ * file; upgrade uses it as the common ancestor for three-way merges. It is a
+ * single JSON file so the project's own tooling never picks up the copies.
+ */
+
+export const MANIFEST_DIR = '.awg';
+export const MANIFEST_FILE = 'manifest.json';
+export const BASE_SNAPSHOT_FILE = 'base.json';
+export const MANIFEST_VERSION = 1;
+
+/**
+ * A file written by the generator
+ */
+export interface GeneratedFile {
+  path: string; // Relative to project root
+  source: string | null; // Template path relative to templates directory, null for inline content
+  hash: string; // sha256 of the content as generated
+}
+
+export interface GenerationManifest {
+  manifestVersion: number;
+  generatorVersion: string;
+  generatedAt: string;
+  upgradedAt?: string;
+  config: WorkspaceConfig;
+  files: GeneratedFile[];
+}
+
+/**
+ * Hash file content as stored in the manifest
+ */
+export function hashContent(content: string | Buffer): string {
+  return `sha256:${crypto.createHash('sha256').update(content).digest('hex')}`;
+}
+
+/**
+ * Get the manifest path for a project
+ */
+export function getManifestPath(projectDir: string): string {
+  return path.join(projectDir, MANIFEST_DIR, MANIFEST_FILE);
+}
+
+/**
+ * Create a manifest for a freshly generated project
+ */
+export function createManifest(
+  config: WorkspaceConfig,
+  files: GeneratedFile[],
+  generatorVersion: string
+): GenerationManifest {
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    generatorVersion,
+    generatedAt: new Date().toISOString(),
+    config,
+    files: [...files].sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
+
+/**
+ * Write the manifest into the project
+ */
+export async function writeManifest(
+  projectDir: string,
+  manifest: GenerationManifest,
+  output: OutputFileSystem = diskOutput
+): Promise<void> {
+  await output.writeFile(getManifestPath(projectDir), `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+/**
+ * Read the manifest of a project, or null if the project has none. The recorded
+ * config is migrated to the current config version.
+ */
+export async function readManifest(projectDir: string): Promise<GenerationManifest | null> {
+  const manifestPath = getManifestPath(projectDir);
+
+  if (!(await fs.pathExists(manifestPath))) {
+    return null;
+  }
+
+  const manifest = (await fs.readJson(manifestPath)) as GenerationManifest;
+
+  // Projects generated by older releases recorded an older config version
+  const { config } = migrateConfig(
+    manifest.config as unknown as Record<string, unknown>,
+    manifestPath
+  );
+  return { ...manifest, config: config as unknown as WorkspaceConfig };
+}
+
+/**
+ * Add or replace file entries in a manifest
+ */
+export function updateManifestFiles(
+  manifest: GenerationManifest,
+  files: GeneratedFile[]
+): GenerationManifest {
+  const entries = new Map(manifest.files.map((file) => [file.path, file]));
+  files.forEach((file) => entries.set(file.path, file));
+
+  return {
+    ...manifest,
+    files: [...entries.values()].sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
+
+/**
+ * Read the pristine content of generated files, keyed by path
+ */
+export async function readBaseSnapshots(projectDir: string): Promise<Record<string, string>> {
+  const snapshotPath = path.join(projectDir, MANIFEST_DIR, BASE_SNAPSHOT_FILE);
+
+  if (!(await fs.pathExists(snapshotPath))) {
+    return {};
+  }
+
+  return (await fs.readJson(snapshotPath)) as Record<string, string>;
+}
+
+/**
+ * Write the pristine content of generated files
+ */
+export async function writeBaseSnapshots(
+  projectDir: string,
+  snapshots: Record<string, string>,
+  output: OutputFileSystem = diskOutput
+): Promise<void> {
+  const sorted = Object.fromEntries(
+    Object.entries(snapshots).sort(([a], [b]) => a.localeCompare(b))
+  );
+  await output.writeFile(
+    path.join(projectDir, MANIFEST_DIR, BASE_SNAPSHOT_FILE),
+    `${JSON.stringify(sorted, null, 2)}\n`
+  );
+}
+
+/**
+ * Record the current on-disk content of freshly generated files as their base snapshot
+ */
+export async function snapshotGeneratedFiles(
+  projectDir: string,
+  files: GeneratedFile[],
+  output: OutputFileSystem = diskOutput
+): Promise<void> {
+  const snapshots = await readBaseSnapshots(projectDir);
+
+  for (const file of files) {
+    snapshots[file.path] = await output.readFile(path.join(projectDir, file.path));
+  }
+
+  await writeBaseSnapshots(projectDir, snapshots, output);
+}
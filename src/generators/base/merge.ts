@@ -0,0 +1,51 @@
+import { diff3Merge } from 'node-diff3';
+
+/**
+ * Line-based three-way merge for upgrading generated files
+ */
+
+export interface MergeLabels {
+  current: string;
+  incoming: string;
+}
+
+export interface ThreeWayMergeResult {
+  content: string;
+  conflict: boolean;
+}
+
+/**
+ * Merge the user's current file and the newly generated file against the
+ * originally generated content. Conflicting hunks are written with git-style
+ * conflict markers, the user's side first.
+ */
+export function mergeThreeWay(
+  current: string,
+  base: string,
+  incoming: string,
+  labels: MergeLabels
+): ThreeWayMergeResult {
+  const regions = diff3Merge(current.split('\n'), base.split('\n'), incoming.split('\n'), {
+    excludeFalseConflicts: true,
+  });
+
+  const lines: string[] = [];
+  let conflict = false;
+
+  for (const region of regions) {
+    if (region.ok) {
+      lines.push(...region.ok);
+    } else if (region.conflict) {
+      conflict = true;
+      lines.push(
+        `<<<<<<< ${labels.current}`,
+        ...region.conflict.a,
+        '=======',
+        ...region.conflict.b,
+        `>>>>>>> ${labels.incoming}`
+      );
+    }
+  }
+
+  return { content: lines.join('\n'), conflict };
+}
@@ -0,0 +1,89 @@
+import path from 'path';
+import { copyFile, ensureDir, readFile, writeFile } from '../../utils/file-system.js';
+
+/**
+ * Output file systems - where generation writes its files.
+ * The disk output writes for real; the recording output keeps everything in memory
+ * so a whole generation can be previewed (dry run) without touching disk.
+ */
+
+export interface OutputFileSystem {
+  writeFile(filePath: string, content: string): Promise<void>;
+  copyFile(src: string, dest: string): Promise<void>;
+  ensureDir(dirPath: string): Promise<void>;
+  readFile(filePath: string): Promise<string>;
+}
+
+/**
+ * A file or directory captured by the recording output
+ */
+export interface RecordedEntry {
+  path: string; // Absolute path
+  type: 'file' | 'directory';
+  size: number; // Bytes, 0 for directories
+}
+
+export interface RecordingOutput extends OutputFileSystem {
+  entries(): RecordedEntry[];
+}
+
+/**
+ * Output that writes to the real file system
+ */
+export const diskOutput: OutputFileSystem = {
+  writeFile,
+  copyFile,
+  ensureDir,
+  readFile,
+};
+
+/**
+ * Output that records every write in memory
+ */
+export function createRecordingOutput(): RecordingOutput {
+  const files = new Map<string, string>();
+  const directories = new Set<string>();
+
+  const addDirectory = (dirPath: string) => {
+    directories.add(path.resolve(dirPath));
+  };
+
+  return {
+    async writeFile(filePath, content) {
+      addDirectory(path.dirname(filePath));
+      files.set(path.resolve(filePath), content);
+    },
+
+    async copyFile(src, dest) {
+      addDirectory(path.dirname(dest));
+      files.set(path.resolve(dest), await readFile(src));
+    },
+
+    async ensureDir(dirPath) {
+      addDirectory(dirPath);
+    },
+
+    async readFile(filePath) {
+      const content = files.get(path.resolve(filePath));
+      if (content === undefined) {
+        throw new Error(`File not recorded: ${filePath}`);
+      }
+      return content;
+    },
+
+    entries() {
+      return [
+        ...[...directories].map((dirPath) => ({
+          path: dirPath,
+          type: 'directory' as const,
+          size: 0,
+        })),
+        ...[...files].map(([filePath, content]) => ({
+          path: filePath,
+          type: 'file' as const,
+          size: Buffer.byteLength(content, 'utf-8'),
+        })),
+      ].sort((a, b) => a.path.localeCompare(b.path));
+    },
+  };
+}
@@ -0,0 +1,183 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Staging directories - generation writes into a temporary sibling of the target
+ * and only moves the result into place once every step has succeeded
+ */
+
+/**
+ * Create an empty staging directory next to targetDir, on the same file system
+ * so it can be renamed into place atomically
+ */
+export async function createStagingDir(targetDir: string): Promise<string> {
+  const parentDir = path.dirname(targetDir);
+  await fs.ensureDir(parentDir);
+  return await fs.mkdtemp(path.join(parentDir, `.${path.basename(targetDir)}.awg-staging-`));
+}
+
+/**
+ * A merge of a staging directory into an existing target, recorded step by
+ * step so it can be undone from the interrupt handler as well
+ */
+interface Promotion {
+  targetDir: string;
+  backupDir: string;
+  created: string[]; // Absolute paths that did not exist before
+  replaced: string[]; // Relative paths of originals moved to backupDir
+}
+
+// Staging directories of every generation in progress, for the interrupt handler
+const activeStagingDirs = new Set<string>();
+
+// Merges into existing targets under way, by staging directory
+const activePromotions = new Map<string, Promotion>();
+
+const interruptHandlers = {
+  SIGINT: () => interrupt(130),
+  SIGTERM: () => interrupt(143),
+};
+
+/**
+ * Move a finished staging directory to targetDir. A new target is a single
+ * rename; an existing target is merged into file by file, and restored if
+ * anything fails or the process is interrupted part way.
+ */
+export async function promoteStagingDir(stagingDir: string, targetDir: string): Promise<void> {
+  if (!(await fs.pathExists(targetDir))) {
+    await fs.rename(stagingDir, targetDir);
+    return;
+  }
+
+  const promotion: Promotion = {
+    targetDir,
+    backupDir: `${stagingDir}-backup`,
+    created: [],
+    replaced: [],
+  };
+  activePromotions.set(stagingDir, promotion);
+
+  try {
+    for (const entry of await listEntries(stagingDir)) {
+      const destPath = path.join(targetDir, entry.path);
+
+      // Each step is recorded before it starts, so an interrupt that lands
+      // while it is in flight still undoes it
+      if (entry.directory) {
+        if (!(await fs.pathExists(destPath))) {
+          promotion.created.push(destPath);
+          await fs.mkdir(destPath);
+        }
+        continue;
+      }
+
+      if (await fs.pathExists(destPath)) {
+        promotion.replaced.push(entry.path);
+        await fs.move(destPath, path.join(promotion.backupDir, entry.path));
+      }
+      promotion.created.push(destPath);
+      await fs.rename(path.join(stagingDir, entry.path), destPath);
+    }
+  } catch (error) {
+    // The backup is kept if any original could not be put back
+    if (rollBackPromotion(promotion)) {
+      await fs.remove(promotion.backupDir);
+    }
+    throw error;
+  } finally {
+    activePromotions.delete(stagingDir);
+  }
+
+  await fs.remove(promotion.backupDir);
+}
+
+/**
+ * Remove the staging directory if the process is interrupted while it exists.
+ * One handler serves every generation in progress, so concurrent projects are
+ * all cleaned up. Returns a function that stops tracking the directory.
+ */
+export function cleanupOnInterrupt(stagingDir: string): () => void {
+  if (activeStagingDirs.size === 0) {
+    process.on('SIGINT', interruptHandlers.SIGINT);
+    process.on('SIGTERM', interruptHandlers.SIGTERM);
+  }
+  activeStagingDirs.add(stagingDir);
+
+  return () => {
+    if (activeStagingDirs.delete(stagingDir) && activeStagingDirs.size === 0) {
+      process.off('SIGINT', interruptHandlers.SIGINT);
+      process.off('SIGTERM', interruptHandlers.SIGTERM);
+    }
+  };
+}
+
+/**
+ * Undo every active promotion, remove every active staging directory, then exit.
+ * A backup directory is only removed once all of its originals are back.
+ */
+function interrupt(exitCode: number): void {
+  for (const stagingDir of activeStagingDirs) {
+    const promotion = activePromotions.get(stagingDir);
+    if (promotion && rollBackPromotion(promotion)) {
+      fs.removeSync(promotion.backupDir);
+    }
+    fs.removeSync(stagingDir);
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Remove what a promotion created and move the originals back. Synchronous so
+ * the interrupt handler can use it. Returns false, leaving the rest of the
+ * backup in place and naming it, if an original could not be restored.
+ */
+function rollBackPromotion(promotion: Promotion): boolean {
+  // In reverse, so directories are removed after their contents
+  for (const createdPath of [...promotion.created].reverse()) {
+    try {
+      fs.removeSync(createdPath);
+    } catch {
+      // Never created: the step that would have created it is the one that failed
+    }
+  }
+
+  let restored = true;
+  for (const relativePath of promotion.replaced) {
+    const backupPath = path.join(promotion.backupDir, relativePath);
+    try {
+      // Missing when the interrupt came before the original was moved
+      if (fs.pathExistsSync(backupPath)) {
+        fs.moveSync(backupPath, path.join(promotion.targetDir, relativePath), { overwrite: true });
+      }
+    } catch {
+      restored = false;
+    }
+  }
+
+  if (!restored) {
+    logger.warning(`Some original files could not be restored; they are in ${promotion.backupDir}`);
+  }
+  return restored;
+}
+
+/**
+ * Every file and directory below dir, parents before children, in stable order
+ */
+async function listEntries(
+  dir: string,
+  relativeDir = ''
+): Promise<{ path: string; directory: boolean }[]> {
+  const entries: { path: string; directory: boolean }[] = [];
+  const dirents = await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true });
+
+  for (const dirent of dirents.sort((a, b) => a.name.localeCompare(b.name))) {
+    const relativePath = path.join(relativeDir, dirent.name);
+    entries.push({ path: relativePath, directory: dirent.isDirectory() });
+    if (dirent.isDirectory()) {
+      entries.push(...(await listEntries(dir, relativePath)));
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,278 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { renderFileOperation, type FileOperation } from '../base/files.js';
+import { readManifest } from '../base/manifest.js';
+import { getPlaceholderOperations, getWebAppFileOperations } from './index.js';
+import { configToTemplateContext } from '../../utils/config-builder.js';
+import { fileExists, readFile } from '../../utils/file-system.js';
+import { inferProjectConfig, readProjectPackageJson } from '../../utils/project-config.js';
+import type { PackageJson } from '../../utils/package-json.js';
+import type { WorkspaceConfig } from '../../types/config.js';
+
+/**
+ * Drift detection between a generated project and its configuration
+ */
+
+export type DoctorCheck = 'missing-file' | 'disabled-feature-file' | 'dependency' | 'env';
+
+export interface DoctorIssue {
+  check: DoctorCheck;
+  severity: 'error' | 'warning';
+  message: string;
+  path?: string;
+}
+
+export interface DoctorReport {
+  projectDir: string;
+  configSource: 'manifest' | 'inferred';
+  config: WorkspaceConfig;
+  issues: DoctorIssue[];
+}
+
+const DEPENDENCY_SECTIONS = ['dependencies', 'devDependencies'] as const;
+
+/**
+ * Config variants with one optional feature switched on. Files and dependencies
+ * they produce that the project's own config does not belong to disabled features.
+ */
+const FEATURE_VARIANTS: ((config: WorkspaceConfig) => void)[] = [
+  (config) => {
+    config.backend = {
+      type: 'firebase',
+      features: ['auth', 'database', 'storage', 'functions'],
+      firebasePattern: 'client-side',
+    };
+  },
+  (config) => {
+    config.backend = {
+      type: 'firebase',
+      features: ['auth', 'database', 'storage', 'functions'],
+      firebasePattern: 'server-first',
+    };
+  },
+  (config) => {
+    config.workspace = { type: 'pwa', platforms: ['web', 'pwa'] };
+    config.pwa = { offline: true, installable: true, notifications: true };
+  },
+  (config) => {
+    config.web.stateManagement = 'zustand';
+  },
+  (config) => {
+    config.web.stateManagement = 'context';
+  },
+  (config) => {
+    config.web.typescript = true;
+    config.web.linting = true;
+    config.web.formatting = true;
+    config.web.gitHooks = true;
+    config.web.testing = 'playwright';
+  },
+];
+
+/**
+ * Compare a generated project against what its config says should be there
+ */
+export async function diagnoseProject(projectDir: string): Promise<DoctorReport> {
+  const packageJson = await readProjectPackageJson(projectDir);
+
+  const manifest = await readManifest(projectDir);
+  const config = manifest?.config ?? (await inferProjectConfig(projectDir));
+
+  const operations = getPlannedFiles(config);
+  const variantOperations = FEATURE_VARIANTS.map((applyVariant) => {
+    const variant = JSON.parse(JSON.stringify(config)) as WorkspaceConfig;
+    applyVariant(variant);
+    return getPlannedFiles(variant);
+  });
+
+  // Placeholders are meant to be deleted once the directory has real files
+  const placeholders = new Set(
+    getPlaceholderOperations(configToTemplateContext(config)).map(
+      (operation) => operation.destination
+    )
+  );
+
+  const issues: DoctorIssue[] = [
+    ...(await checkMissingFiles(
+      projectDir,
+      operations.filter((operation) => !placeholders.has(operation.destination))
+    )),
+    ...(await checkDisabledFeatureFiles(projectDir, operations, variantOperations)),
+    ...(await checkDependencies(packageJson, operations, variantOperations)),
+    ...(await checkEnvKeys(projectDir)),
+  ];
+
+  return {
+    projectDir,
+    configSource: manifest ? 'manifest' : 'inferred',
+    config,
+    issues,
+  };
+}
+
+/**
+ * File operations (no directories) the generator produces for a config
+ */
+function getPlannedFiles(config: WorkspaceConfig): FileOperation[] {
+  return getWebAppFileOperations(configToTemplateContext(config)).filter(
+    (operation) => operation.type !== 'directory'
+  );
+}
+
+/**
+ * Files the config says should exist but are missing
+ */
+async function checkMissingFiles(
+  projectDir: string,
+  operations: FileOperation[]
+): Promise<DoctorIssue[]> {
+  const issues: DoctorIssue[] = [];
+
+  for (const operation of operations) {
+    if (!(await fs.pathExists(path.join(projectDir, operation.destination)))) {
+      issues.push({
+        check: 'missing-file',
+        severity: 'error',
+        message: `Expected file is missing: ${operation.destination}`,
+        path: operation.destination,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Files generated only for features the config does not enable
+ */
+async function checkDisabledFeatureFiles(
+  projectDir: string,
+  operations: FileOperation[],
+  variantOperations: FileOperation[][]
+): Promise<DoctorIssue[]> {
+  const expected = new Set(operations.map((operation) => operation.destination));
+  const featureOnly = new Set(
+    variantOperations
+      .flat()
+      .map((operation) => operation.destination)
+      .filter((destination) => !expected.has(destination))
+  );
+
+  const issues: DoctorIssue[] = [];
+
+  for (const destination of featureOnly) {
+    if (await fs.pathExists(path.join(projectDir, destination))) {
+      issues.push({
+        check: 'disabled-feature-file',
+        severity: 'warning',
+        message: `File belongs to a feature that is not enabled: ${destination}`,
+        path: destination,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Dependencies that are missing, on another version, or belong to disabled features
+ */
+async function checkDependencies(
+  packageJson: PackageJson,
+  operations: FileOperation[],
+  variantOperations: FileOperation[][]
+): Promise<DoctorIssue[]> {
+  const expected = await renderPackageJson(operations);
+  if (!expected) {
+    return [];
+  }
+
+  const issues: DoctorIssue[] = [];
+
+  for (const section of DEPENDENCY_SECTIONS) {
+    const actual = packageJson[section] || {};
+    const wanted = expected[section] || {};
+
+    for (const [name, version] of Object.entries(wanted)) {
+      if (!(name in actual)) {
+        issues.push({
+          check: 'dependency',
+          severity: 'error',
+          message: `Missing ${section} entry: ${name}@${version}`,
+          path: `package.json#${section}.${name}`,
+        });
+      } else if (actual[name] !== version) {
+        issues.push({
+          check: 'dependency',
+          severity: 'warning',
+          message: `${name} is ${actual[name]} in ${section}, generator expects ${version}`,
+          path: `package.json#${section}.${name}`,
+        });
+      }
+    }
+  }
+
+  // Dependencies only a disabled feature would add
+  const reported = new Set<string>();
+  for (const operationsForVariant of variantOperations) {
+    const variant = await renderPackageJson(operationsForVariant);
+
+    for (const section of DEPENDENCY_SECTIONS) {
+      const actual = packageJson[section] || {};
+      const wanted = expected[section] || {};
+
+      for (const name of Object.keys(variant?.[section] || {})) {
+        const key = `${section}.${name}`;
+        if (name in actual && !(name in wanted) && !reported.has(key)) {
+          reported.add(key);
+          issues.push({
+            check: 'dependency',
+            severity: 'warning',
+            message: `${name} belongs to a feature that is not enabled`,
+            path: `package.json#${key}`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Render the package.json a set of operations would produce
+ */
+async function renderPackageJson(operations: FileOperation[]): Promise<PackageJson | null> {
+  const operation = operations.find((op) => op.destination === 'package.json');
+  const content = operation ? await renderFileOperation(operation) : null;
+  return content ? (JSON.parse(content) as PackageJson) : null;
+}
+
+/**
+ * Keys documented in .env.example that src/lib/env.ts does not validate
+ */
+async function checkEnvKeys(projectDir: string): Promise<DoctorIssue[]> {
+  const envExamplePath = path.join(projectDir, '.env.example');
+  const envModulePath = path.join(projectDir, 'src/lib/env.ts');
+
+  if (!(await fileExists(envExamplePath)) || !(await fileExists(envModulePath))) {
+    return [];
+  }
+
+  const envExample = await readFile(envExamplePath);
+  const envModule = await readFile(envModulePath);
+
+  const keys = envExample
+    .split('\n')
+    .map((line) => /^\s*([A-Z][A-Z0-9_]*)\s*=/.exec(line)?.[1])
+    .filter((key): key is string => !!key);
+
+  return keys
+    .filter((key) => !new RegExp(`\\b${key}\\b`).test(envModule))
+    .map((key) => ({
+      check: 'env' as const,
+      severity: 'error' as const,
+      message: `${key} is listed in .env.example but not validated in src/lib/env.ts`,
+      path: '.env.example',
+    }));
+}
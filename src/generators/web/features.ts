@@ -0,0 +1,225 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { executeFileOperations, type FileOperation } from '../base/files.js';
+import { compileTemplateFile } from '../base/templates.js';
+import {
+  readManifest,
+  snapshotGeneratedFiles,
+  updateManifestFiles,
+  writeManifest,
+} from '../base/manifest.js';
+import { getWebAppFileOperations } from './index.js';
+import {
+  configToTemplateContext,
+  DEFAULT_BACKEND_FEATURES,
+  DEFAULT_FIREBASE_PATTERN,
+} from '../../utils/config-builder.js';
+import { errors } from '../../utils/errors.js';
+import { writeFile } from '../../utils/file-system.js';
+import {
+  mergePackageJson,
+  stringifyPackageJson,
+  type PackageJson,
+  type PackageJsonMergeResult,
+} from '../../utils/package-json.js';
+import type { BackendFeature, FirebasePattern, WorkspaceConfig } from '../../types/config.js';
+
+/**
+ * Adding features to an already-generated web application
+ */
+
+export const ADDABLE_FEATURES = ['firebase', 'pwa', 'zustand', 'context'] as const;
+export type AddableFeature = (typeof ADDABLE_FEATURES)[number];
+
+export interface FeatureOptions {
+  firebasePattern?: FirebasePattern;
+  backendFeatures?: BackendFeature[];
+}
+
+export interface AddFeatureOptions extends FeatureOptions {
+  targetDir: string;
+  config: WorkspaceConfig;
+  feature: AddableFeature;
+}
+
+export interface AddFeatureResult {
+  config: WorkspaceConfig;
+  filesCreated: string[];
+  filesSkipped: string[];
+  filesToReview: string[];
+  dependenciesAdded: PackageJsonMergeResult['added'];
+}
+
+/**
+ * Check that a string names a feature supported by `add`
+ */
+export function isAddableFeature(feature: string): feature is AddableFeature {
+  return (ADDABLE_FEATURES as readonly string[]).includes(feature);
+}
+
+/**
+ * Return a copy of the config with the feature enabled
+ */
+export function applyFeature(
+  config: WorkspaceConfig,
+  feature: AddableFeature,
+  options: FeatureOptions = {}
+): WorkspaceConfig {
+  const updated = JSON.parse(JSON.stringify(config)) as WorkspaceConfig;
+
+  switch (feature) {
+    case 'firebase':
+      if (config.backend?.type === 'firebase') {
+        throw errors.featureAlreadyEnabled(feature);
+      }
+      updated.backend = {
+        type: 'firebase',
+        features: options.backendFeatures || DEFAULT_BACKEND_FEATURES,
+        firebasePattern: options.firebasePattern || DEFAULT_FIREBASE_PATTERN,
+      };
+      break;
+
+    case 'pwa':
+      if (config.workspace.type === 'pwa' || config.workspace.platforms.includes('pwa')) {
+        throw errors.featureAlreadyEnabled(feature);
+      }
+      updated.workspace = { type: 'pwa', platforms: ['web', 'pwa'] };
+      updated.pwa = { offline: true, installable: true, notifications: false };
+      break;
+
+    case 'zustand':
+    case 'context':
+      if (config.web.stateManagement === feature) {
+        throw errors.featureAlreadyEnabled(feature);
+      }
+      updated.web.stateManagement = feature;
+      break;
+  }
+
+  return updated;
+}
+
+/**
+ * Write the files a feature contributes into an existing project.
+ *
+ * The operation plans for the current and the updated config are diffed: only
+ * destinations that are new in the updated plan are written, and never over an
+ * existing file. Template outputs shared by both plans whose rendering changes are
+ * reported for manual review, and package.json is merged rather than overwritten.
+ * The project's manifest, if any, is updated with the new config and files.
+ */
+export async function addFeature(options: AddFeatureOptions): Promise<AddFeatureResult> {
+  const { targetDir, config, feature } = options;
+
+  const updatedConfig = applyFeature(config, feature, options);
+  const beforeContext = configToTemplateContext(config);
+  const afterContext = configToTemplateContext(updatedConfig);
+
+  const beforeOperations = getWebAppFileOperations(beforeContext);
+  const afterOperations = getWebAppFileOperations(afterContext);
+  const existingDestinations = new Set(beforeOperations.map((op) => op.destination));
+
+  const newOperations: FileOperation[] = [];
+  const filesSkipped: string[] = [];
+
+  for (const operation of afterOperations) {
+    if (existingDestinations.has(operation.destination)) {
+      continue;
+    }
+
+    if (
+      operation.type !== 'directory' &&
+      (await fs.pathExists(path.join(targetDir, operation.destination)))
+    ) {
+      filesSkipped.push(operation.destination);
+      continue;
+    }
+
+    newOperations.push(operation);
+  }
+
+  const files =
+    newOperations.length > 0
+      ? await executeFileOperations(newOperations, targetDir, `Adding ${feature}`)
+      : [];
+
+  const filesToReview = await findChangedSharedTemplates(beforeOperations, afterOperations);
+
+  const dependenciesAdded = await mergeProjectPackageJson(targetDir, afterOperations);
+
+  // Keep the manifest in step with the project
+  const manifest = await readManifest(targetDir);
+  if (manifest) {
+    await writeManifest(targetDir, {
+      ...updateManifestFiles(manifest, files),
+      config: updatedConfig,
+    });
+    await snapshotGeneratedFiles(targetDir, files);
+  }
+
+  return {
+    config: updatedConfig,
+    filesCreated: files.map((file) => file.path),
+    filesSkipped,
+    filesToReview,
+    dependenciesAdded,
+  };
+}
+
+/**
+ * Find templates present in both plans whose output differs with the new feature
+ */
+async function findChangedSharedTemplates(
+  beforeOperations: FileOperation[],
+  afterOperations: FileOperation[]
+): Promise<string[]> {
+  const changed: string[] = [];
+
+  for (const after of afterOperations) {
+    if (after.type !== 'template' || !after.context || after.destination === 'package.json') {
+      continue;
+    }
+
+    const before = beforeOperations.find((op) => op.destination === after.destination);
+    if (!before || before.type !== 'template' || !before.context) {
+      continue;
+    }
+
+    const [beforeContent, afterContent] = await Promise.all([
+      compileTemplateFile(before.source, before.context),
+      compileTemplateFile(after.source, after.context),
+    ]);
+
+    if (beforeContent !== afterContent) {
+      changed.push(after.destination);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Merge the scripts and dependencies of the rendered package.json into the project's
+ */
+async function mergeProjectPackageJson(
+  targetDir: string,
+  operations: FileOperation[]
+): Promise<PackageJsonMergeResult['added']> {
+  const packageOperation = operations.find((op) => op.destination === 'package.json');
+  if (!packageOperation?.context) {
+    return [];
+  }
+
+  const packageJsonPath = path.join(targetDir, 'package.json');
+  const existing = (await fs.readJson(packageJsonPath)) as PackageJson;
+  const generated = JSON.parse(
+    await compileTemplateFile(packageOperation.source, packageOperation.context)
+  ) as PackageJson;
+
+  const { merged, added } = mergePackageJson(existing, generated);
+  if (added.length > 0) {
+    await writeFile(packageJsonPath, stringifyPackageJson(merged));
+  }
+
+  return added;
+}
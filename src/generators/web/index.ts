@@ -1,56 +1,205 @@
 import path from 'path';
 import { executeFileOperations, type FileOperation } from '../base/files.js';
-import { ensureDir, writeFile } from '../../utils/file-system.js';
+import {
+  createManifest,
+  snapshotGeneratedFiles,
+  writeManifest,
+  type GeneratedFile,
+} from '../base/manifest.js';
+import { createConflictPolicy, type ConflictPolicy, type FileConflict } from '../base/conflicts.js';
+import {
+  createRecordingOutput,
+  diskOutput,
+  type OutputFileSystem,
+  type RecordingOutput,
+} from '../base/output.js';
+import { cleanupOnInterrupt, createStagingDir, promoteStagingDir } from '../base/staging.js';
+import { getInstallCommand, installDependencies } from '../base/install.js';
+import { commitInitialProject, DEFAULT_BRANCH, initRepository } from '../base/git.js';
+import { runHooks, type HookRunOptions } from '../base/hooks.js';
+import { getGeneratorVersion, removeDir } from '../../utils/file-system.js';
 import type { GenerationOptions, TemplateContext } from '../../types/config.js';
-import { logger } from '../../utils/logger.js';
+import { logger, formatBytes, isLevelEnabled, type Logger } from '../../utils/logger.js';
 
 /**
- * Generate a web application
+ * What a generation run produced
  */
-export async function generateWebApp(options: GenerationOptions): Promise<void> {
-  const { targetDir, templateContext } = options;
+export interface GenerationResult {
+  targetDir: string;
+  files: GeneratedFile[]; // Every file written, or planned in a dry run
+  conflicts: FileConflict[]; // Existing files and how each was handled
+  dryRun: boolean;
+  durationMs: number;
+}
+
+/**
+ * Generate a web application. Files are written to a staging directory that is
+ * moved to targetDir only after every step succeeded, so a failed or
+ * interrupted run never leaves a partial project behind.
+ *
+ * With options.logger, progress goes to that logger only: no banner, summary or
+ * spinners, and no signal handlers that exit the process unless
+ * options.exitOnInterrupt asks for them.
+ */
+export async function generateWebApp(options: GenerationOptions): Promise<GenerationResult> {
+  const { targetDir, config, templateContext, dryRun = false, logger: log } = options;
   const startTime = Date.now();
+  const files: GeneratedFile[] = [];
+  const recorder = dryRun ? createRecordingOutput() : null;
+  const output: OutputFileSystem = recorder ?? diskOutput;
+  const conflicts = options.conflict
+    ? createConflictPolicy(options.conflict, targetDir)
+    : undefined;
   let totalFiles = 0;
+  let promoted = false;
+
+  // Checked up front so an unsupported install mode fails before any work
+  const install =
+    options.skipInstall || dryRun
+      ? undefined
+      : getInstallCommand(templateContext.packageManager, options.offline);
+
+  const step = (current: number, message: string) =>
+    log ? log.step(message) : logger.stepIndicator(current, 5, message);
+  const count = (fileCount: number, message: string) =>
+    log ? log.success(`${fileCount} ${message}`) : logger.fileCount(fileCount, message);
+  const success = (message: string) => (log ?? logger).success(message);
+
+  if (!log) {
+    // Print banner
+    logger.banner();
+
+    logger.header(`${dryRun ? 'Planning' : 'Creating'} ${templateContext.projectName}`);
+  }
 
-  // Print banner
-  logger.banner();
+  // A dry run never touches disk, so it can plan against targetDir directly
+  const workDir = dryRun ? targetDir : await createStagingDir(targetDir);
+  const exitOnInterrupt = !dryRun && (options.exitOnInterrupt ?? !log);
+  const releaseInterrupt = exitOnInterrupt ? cleanupOnInterrupt(workDir) : () => {};
+  if (!dryRun) {
+    (log ?? logger).debug?.(`Staging files in ${workDir}`);
+  }
 
-  logger.header(`Creating ${templateContext.projectName}`);
+  // Hooks and the install show their output live in verbose mode
+  const stream = !log && isLevelEnabled('verbose');
+  const hookOptions: HookRunOptions = {
+    projectDir: targetDir,
+    context: templateContext,
+    log: log ?? logger,
+    stream,
+  };
 
   try {
     // Step 1: Create project directory
-    logger.stepIndicator(1, 5, 'Creating project directory');
-    await ensureDir(targetDir);
-    logger.success('Project directory created');
+    step(1, 'Creating project directory');
+    await output.ensureDir(workDir);
+    success('Project directory created');
     totalFiles++;
 
+    // Hooks have side effects, so a dry run skips them
+    if (!dryRun) {
+      await runHooks('preGenerate', config.hooks, { ...hookOptions, stagingDir: workDir });
+    }
+
     // Step 2: Generate configuration files
-    logger.stepIndicator(2, 5, 'Generating configuration files');
-    const configCount = await generateConfigFiles(targetDir, templateContext);
-    logger.fileCount(configCount, 'configuration files created');
+    step(2, 'Generating configuration files');
+    const configCount = await generateConfigFiles(
+      workDir,
+      templateContext,
+      files,
+      output,
+      conflicts,
+      log
+    );
+    count(configCount, 'configuration files created');
     totalFiles += configCount;
 
     // Step 3: Generate source structure
-    logger.stepIndicator(3, 5, 'Generating source structure');
-    const sourceCount = await generateSourceStructure(targetDir, templateContext);
-    logger.fileCount(sourceCount, 'source files created');
+    step(3, 'Generating source structure');
+    const sourceCount = await generateSourceStructure(
+      workDir,
+      templateContext,
+      files,
+      output,
+      conflicts,
+      log
+    );
+    count(sourceCount, 'source files created');
     totalFiles += sourceCount;
 
     // Step 4: Generate root files
-    logger.stepIndicator(4, 5, 'Generating documentation and root files');
-    const rootCount = await generateRootFiles(targetDir, templateContext);
-    logger.fileCount(rootCount, 'root files created');
+    step(4, 'Generating documentation and root files');
+    const rootCount = await generateRootFiles(
+      workDir,
+      templateContext,
+      files,
+      output,
+      conflicts,
+      log
+    );
+    count(rootCount, 'root files created');
     totalFiles += rootCount;
 
     // Step 5: Generate dev tools
     if (templateContext.linting || templateContext.formatting || templateContext.gitHooks) {
-      logger.stepIndicator(5, 5, 'Setting up development tools');
-      await generateDevTools(targetDir, templateContext);
-      logger.success('Development tools configured');
+      step(5, 'Setting up development tools');
+      await generateDevTools(workDir, templateContext, files, output, conflicts, log);
+      success('Development tools configured');
       totalFiles += 2; // git hooks
     } else {
-      logger.stepIndicator(5, 5, 'Skipping development tools');
-      logger.info('No development tools configured');
+      step(5, 'Skipping development tools');
+      (log ?? logger).info('No development tools configured');
+    }
+
+    // Record how the project was generated
+    await writeManifest(
+      workDir,
+      createManifest(config, files, await getGeneratorVersion()),
+      output
+    );
+    await snapshotGeneratedFiles(workDir, files, output);
+
+    const result = (): GenerationResult => ({
+      targetDir,
+      files,
+      conflicts: conflicts?.conflicts ?? [],
+      dryRun,
+      durationMs: Date.now() - startTime,
+    });
+
+    if (!log) {
+      printConflictReport(conflicts);
+    }
+
+    if (recorder) {
+      if (!log) {
+        printFilePlan(targetDir, files, recorder);
+      }
+      return result();
+    }
+
+    // Every step succeeded - move the project into place
+    await promoteStagingDir(workDir, targetDir);
+    promoted = true;
+
+    // The repository comes first so the install's husky prepare script can set up hooks
+    const repository = options.git && (await initRepository(targetDir, log ?? logger));
+
+    await runHooks('postGenerate', config.hooks, hookOptions);
+
+    // Install into the final directory; a failure keeps the generated files
+    if (install) {
+      await installDependencies(targetDir, install, { log, stream });
+      await runHooks('postInstall', config.hooks, hookOptions);
+    }
+
+    if (repository) {
+      await commitInitialProject(targetDir, log ?? logger);
+    }
+
+    if (log) {
+      log.success(`Project created in ${targetDir}`);
+      return result();
     }
 
     // Calculate elapsed time
@@ -65,6 +214,8 @@ export async function generateWebApp(options: GenerationOptions): Promise<void>
       `📁 Location: ${targetDir}`,
       `📝 Files: ${totalFiles} created`,
       `⏱️  Time: ${elapsedTime}s`,
+      `📦 Dependencies: ${install ? 'installed' : 'not installed (--skip-install)'}`,
+      ...(repository ? [`🌱 Git: initial commit on ${DEFAULT_BRANCH}`] : []),
       '',
       `🚀 Framework: Next.js ${templateContext.typescript ? '+ TypeScript' : ''}`,
       `🎨 Styling: ${templateContext.styling === 'tailwind' ? 'Tailwind CSS v4' : 'CSS'}`,
@@ -74,17 +225,66 @@ export async function generateWebApp(options: GenerationOptions): Promise<void>
     ]);
 
     // Print next steps
-    printNextSteps(templateContext);
+    printNextSteps(templateContext, !!install);
+
+    return result();
   } catch (error) {
-    logger.error('Failed to generate project');
+    (log ?? logger).error(
+      promoted
+        ? 'Project files were created, but setup did not finish'
+        : 'Failed to generate project'
+    );
     throw error;
+  } finally {
+    releaseInterrupt();
+    if (!dryRun) {
+      await removeDir(workDir);
+    }
   }
 }
 
+/**
+ * Every file operation for the given context, in generation order
+ */
+export function getWebAppFileOperations(context: TemplateContext): FileOperation[] {
+  return [
+    ...getConfigFileOperations(context),
+    ...getSourceStructureOperations(context),
+    ...getPlaceholderOperations(context),
+    ...getRootFileOperations(context),
+    ...getGitHookOperations(context),
+  ];
+}
+
 /**
  * Generate configuration files
  */
-async function generateConfigFiles(targetDir: string, context: TemplateContext): Promise<number> {
+async function generateConfigFiles(
+  targetDir: string,
+  context: TemplateContext,
+  files: GeneratedFile[],
+  output: OutputFileSystem,
+  conflicts?: ConflictPolicy,
+  log?: Logger
+): Promise<number> {
+  const operations = getConfigFileOperations(context);
+  files.push(
+    ...(await executeFileOperations(
+      operations,
+      targetDir,
+      'Configuration files',
+      output,
+      conflicts,
+      log
+    ))
+  );
+  return operations.length;
+}
+
+/**
+ * Configuration file operations for the given context
+ */
+export function getConfigFileOperations(context: TemplateContext): FileOperation[] {
   const operations: FileOperation[] = [
     {
       type: 'template',
@@ -139,8 +339,7 @@ async function generateConfigFiles(targetDir: string, context: TemplateContext):
     });
   }
 
-  await executeFileOperations(operations, targetDir, 'Configuration files');
-  return operations.length;
+  return operations;
 }
 
 /**
@@ -148,8 +347,72 @@ async function generateConfigFiles(targetDir: string, context: TemplateContext):
  */
 async function generateSourceStructure(
   targetDir: string,
-  context: TemplateContext
+  context: TemplateContext,
+  files: GeneratedFile[],
+  output: OutputFileSystem,
+  conflicts?: ConflictPolicy,
+  log?: Logger
 ): Promise<number> {
+  const operations = getSourceStructureOperations(context);
+  files.push(
+    ...(await executeFileOperations(
+      operations,
+      targetDir,
+      'Source structure',
+      output,
+      conflicts,
+      log
+    ))
+  );
+
+  // Create placeholder files for empty directories
+  const placeholders = getPlaceholderOperations(context);
+  files.push(
+    ...(await executeFileOperations(
+      placeholders,
+      targetDir,
+      'Placeholder files',
+      output,
+      conflicts,
+      log
+    ))
+  );
+
+  return operations.length + placeholders.length;
+}
+
+/**
+ * Placeholder files for otherwise empty source directories
+ */
+export function getPlaceholderOperations(context: TemplateContext): FileOperation[] {
+  const placeholderContent = `// Placeholder file
+// Delete this file when you add your own files to this directory
+export {};
+`;
+
+  // ui/index.ts is now a real file with component exports
+  // Note: src/types/index.ts is now a real file, not a placeholder
+  const operations: FileOperation[] = [
+    { type: 'content', source: '', destination: 'src/hooks/index.ts', content: placeholderContent },
+  ];
+
+  // Only create utils.ts placeholder if not using Firebase
+  if (context.backend !== 'firebase') {
+    operations.push({
+      type: 'content',
+      source: '',
+      destination: 'src/lib/utils.ts',
+      content: placeholderContent,
+    });
+  }
+
+  return operations;
+}
+
+/**
+ * Source structure operations for the given context
+ */
+export function getSourceStructureOperations(context: TemplateContext): FileOperation[] {
   const operations: FileOperation[] = [
     // App directory
     {
@@ -443,33 +706,38 @@ async function generateSourceStructure(
     );
   }
 
-  await executeFileOperations(operations, targetDir, 'Source structure');
-
-  // Create placeholder files for empty directories
-  const placeholderContent = `// Placeholder file
-// Delete this file when you add your own files to this directory
-export {};
-`;
-
-  let placeholderCount = 0;
-  // ui/index.ts is now a real file with component exports
-  await writeFile(path.join(targetDir, 'src/hooks/index.ts'), placeholderContent);
-  placeholderCount++;
-  // Note: src/types/index.ts is now a real file, not a placeholder
-
-  // Only create utils.ts placeholder if not using Firebase
-  if (context.backend !== 'firebase') {
-    await writeFile(path.join(targetDir, 'src/lib/utils.ts'), placeholderContent);
-    placeholderCount++;
-  }
-
-  return operations.length + placeholderCount;
+  return operations;
 }
 
 /**
  * Generate root files (.gitignore, README, etc.)
  */
-async function generateRootFiles(targetDir: string, context: TemplateContext): Promise<number> {
+async function generateRootFiles(
+  targetDir: string,
+  context: TemplateContext,
+  files: GeneratedFile[],
+  output: OutputFileSystem,
+  conflicts?: ConflictPolicy,
+  log?: Logger
+): Promise<number> {
+  const operations = getRootFileOperations(context);
+  files.push(
+    ...(await executeFileOperations(
+      operations,
+      targetDir,
+      'Documentation and root files',
+      output,
+      conflicts,
+      log
+    ))
+  );
+  return operations.length;
+}
+
+/**
+ * Documentation and root file operations for the given context
+ */
+export function getRootFileOperations(context: TemplateContext): FileOperation[] {
   const operations: FileOperation[] = [
     {
       type: 'template',
@@ -618,22 +886,43 @@ async function generateRootFiles(targetDir: string, context: TemplateContext): P
     );
   }
 
-  await executeFileOperations(operations, targetDir, 'Documentation and root files');
-  return operations.length;
+  return operations;
 }
 
 /**
  * Generate dev tools setup (Husky, etc.)
  */
-async function generateDevTools(targetDir: string, context: TemplateContext): Promise<void> {
+async function generateDevTools(
+  targetDir: string,
+  context: TemplateContext,
+  files: GeneratedFile[],
+  output: OutputFileSystem,
+  conflicts?: ConflictPolicy,
+  log?: Logger
+): Promise<void> {
   if (!context.gitHooks) {
     return;
   }
 
-  logger.section('Setting up Git hooks');
+  if (!log) {
+    logger.section('Setting up Git hooks');
+  }
 
-  // Create .husky directory
-  await ensureDir(path.join(targetDir, '.husky'));
+  const operations = getGitHookOperations(context);
+  files.push(
+    ...(await executeFileOperations(operations, targetDir, 'Git hooks', output, conflicts, log))
+  );
+
+  (log ?? logger).success('Git hooks configured');
+}
+
+/**
+ * Husky git hook operations for the given context
+ */
+export function getGitHookOperations(context: TemplateContext): FileOperation[] {
+  if (!context.gitHooks) {
+    return [];
+  }
 
   // Create pre-commit hook
   const preCommitContent = `#!/usr/bin/env sh
@@ -642,8 +931,6 @@ async function generateDevTools(targetDir: string, context: TemplateContext): Pr
 npx lint-staged
 `;
 
-  await writeFile(path.join(targetDir, '.husky/pre-commit'), preCommitContent);
-
   // Create commit-msg hook
   const commitMsgContent = `#!/usr/bin/env sh
 . "$(dirname -- "$0")/_/husky.sh"
@@ -651,24 +938,66 @@ npx lint-staged
 npx --no -- commitlint --edit "$1"
 `;
 
-  await writeFile(path.join(targetDir, '.husky/commit-msg'), commitMsgContent);
-
   // Create lint-staged config in package.json
   // This will be done via package.json template
 
-  logger.success('Git hooks configured');
+  return [
+    { type: 'directory', source: '', destination: '.husky' },
+    { type: 'content', source: '', destination: '.husky/pre-commit', content: preCommitContent },
+    { type: 'content', source: '', destination: '.husky/commit-msg', content: commitMsgContent },
+  ];
+}
+
+/**
+ * Report how files that already existed were handled
+ */
+function printConflictReport(conflicts: ConflictPolicy | undefined): void {
+  if (!conflicts || conflicts.conflicts.length === 0 || !isLevelEnabled('normal')) {
+    return;
+  }
+
+  logger.header('📂 Existing files:');
+  conflicts.conflicts.forEach((conflict) => {
+    const target = conflict.writtenTo ? ` → ${conflict.writtenTo}` : '';
+    console.log(`  ${conflict.action.padEnd(12)} ${conflict.path}${target}`);
+  });
+  logger.newLine();
+}
+
+/**
+ * Print the tree of files a dry run would create
+ */
+function printFilePlan(targetDir: string, files: GeneratedFile[], recorder: RecordingOutput): void {
+  const sources = new Map(files.map((file) => [file.path, file.source]));
+  const entries = recorder
+    .entries()
+    .filter((entry) => entry.path !== path.resolve(targetDir))
+    .map((entry) => {
+      const relativePath = path.relative(targetDir, entry.path).split(path.sep).join('/');
+      return { ...entry, path: relativePath, source: sources.get(relativePath) };
+    });
+
+  const fileEntries = entries.filter((entry) => entry.type === 'file');
+  const totalSize = fileEntries.reduce((sum, entry) => sum + entry.size, 0);
+
+  logger.header('📋 File plan (dry run - nothing was written):');
+  logger.fileTree(path.basename(targetDir), entries);
+  logger.newLine();
+  logger.info(`${fileEntries.length} files, ${formatBytes(totalSize)} in total`);
+  logger.newLine();
 }
 
 /**
  * Print next steps
  */
-function printNextSteps(context: TemplateContext): void {
+function printNextSteps(context: TemplateContext, installed: boolean): void {
   const { projectName, packageManager } = context;
+  if (!isLevelEnabled('normal')) {
+    return;
+  }
 
   logger.header('🎯 Next steps:');
 
-  console.log(`  1. cd ${projectName}`);
-
   const installCmd =
     packageManager === 'npm'
       ? 'npm install'
@@ -678,8 +1007,6 @@ function printNextSteps(context: TemplateContext): void {
           ? 'bun install'
           : 'pnpm install';
 
-  console.log(`  2. ${installCmd}`);
-
   const devCmd =
     packageManager === 'npm'
       ? 'npm run dev'
@@ -689,8 +1016,15 @@ function printNextSteps(context: TemplateContext): void {
           ? 'bun dev'
           : 'pnpm dev';
 
-  console.log(`  3. ${devCmd}`);
-  console.log(`  4. Open http://localhost:3000`);
+  const steps = [
+    `cd ${projectName}`,
+    ...(installed ? [] : [installCmd]),
+    devCmd,
+    'Open http://localhost:3000',
+  ];
+  steps.forEach((nextStep, index) => {
+    console.log(`  ${index + 1}. ${nextStep}`);
+  });
   logger.newLine();
 
   logger.header('📖 Documentation:');
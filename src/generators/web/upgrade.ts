@@ -0,0 +1,147 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { renderFileOperation } from '../base/files.js';
+import { mergeThreeWay } from '../base/merge.js';
+import {
+  hashContent,
+  readBaseSnapshots,
+  readManifest,
+  updateManifestFiles,
+  writeBaseSnapshots,
+  writeManifest,
+  type GeneratedFile,
+} from '../base/manifest.js';
+import { getWebAppFileOperations } from './index.js';
+import { configToTemplateContext } from '../../utils/config-builder.js';
+import { errors } from '../../utils/errors.js';
+import { getGeneratorVersion, readFile, writeFile } from '../../utils/file-system.js';
+
+/**
+ * Upgrading a generated project to the current templates
+ */
+
+export type UpgradeStatus =
+  | 'up-to-date' // Current file already matches the new template output
+  | 'updated' // Untouched by the user, replaced with the new output
+  | 'kept' // Template output unchanged, user edits kept
+  | 'merged' // User edits and template changes merged cleanly
+  | 'conflict' // Written with conflict markers
+  | 'added' // New file in this generator version
+  | 'skipped'; // Deleted by the user, not recreated
+
+export interface UpgradeFileResult {
+  path: string;
+  source: string | null;
+  status: UpgradeStatus;
+}
+
+export interface UpgradeOptions {
+  targetDir: string;
+  dryRun?: boolean;
+}
+
+export interface UpgradeResult {
+  fromVersion: string;
+  toVersion: string;
+  files: UpgradeFileResult[];
+  obsolete: string[]; // Generated by the old version, no longer produced
+}
+
+/**
+ * Re-render every template with the project's stored config and three-way merge
+ * the result into the project, using the base snapshots as common ancestor.
+ */
+export async function upgradeProject(options: UpgradeOptions): Promise<UpgradeResult> {
+  const { targetDir, dryRun = false } = options;
+
+  const manifest = await readManifest(targetDir);
+  if (!manifest) {
+    throw errors.manifestNotFound(targetDir);
+  }
+
+  const toVersion = await getGeneratorVersion();
+  const snapshots = await readBaseSnapshots(targetDir);
+  const manifestEntries = new Map(manifest.files.map((file) => [file.path, file]));
+  const operations = getWebAppFileOperations(configToTemplateContext(manifest.config));
+
+  const results: UpgradeFileResult[] = [];
+  const regenerated: GeneratedFile[] = [];
+  const writes: { path: string; content: string }[] = [];
+  const newSnapshots: Record<string, string> = {};
+
+  for (const operation of operations) {
+    const incoming = await renderFileOperation(operation);
+    if (incoming === null) {
+      continue;
+    }
+
+    const filePath = operation.destination;
+    const absolutePath = path.join(targetDir, filePath);
+    const entry = manifestEntries.get(filePath);
+    const source = operation.type === 'content' ? null : operation.source;
+    const record = (status: UpgradeStatus) => results.push({ path: filePath, source, status });
+
+    regenerated.push({ path: filePath, source, hash: hashContent(incoming) });
+    newSnapshots[filePath] = incoming;
+
+    if (!(await fs.pathExists(absolutePath))) {
+      if (entry) {
+        record('skipped');
+      } else {
+        writes.push({ path: filePath, content: incoming });
+        record('added');
+      }
+      continue;
+    }
+
+    const current = await readFile(absolutePath);
+
+    // Fall back to the current content as base when it is provably untouched
+    let base = snapshots[filePath];
+    if (base === undefined && entry && entry.hash === hashContent(current)) {
+      base = current;
+    }
+
+    if (current === incoming) {
+      record('up-to-date');
+    } else if (base === current) {
+      writes.push({ path: filePath, content: incoming });
+      record('updated');
+    } else if (base === incoming) {
+      record('kept');
+    } else {
+      const merged = mergeThreeWay(current, base ?? '', incoming, {
+        current: 'current',
+        incoming: `app-workspace-generator@${toVersion}`,
+      });
+      writes.push({ path: filePath, content: merged.content });
+      record(merged.conflict ? 'conflict' : 'merged');
+    }
+  }
+
+  const plannedPaths = new Set(regenerated.map((file) => file.path));
+  const obsolete = manifest.files
+    .map((file) => file.path)
+    .filter((filePath) => !plannedPaths.has(filePath));
+
+  if (!dryRun) {
+    for (const write of writes) {
+      await writeFile(path.join(targetDir, write.path), write.content);
+    }
+
+    // The new output becomes the base for the next upgrade
+    await writeBaseSnapshots(targetDir, { ...snapshots, ...newSnapshots });
+    await writeManifest(targetDir, {
+      ...updateManifestFiles(manifest, regenerated),
+      generatorVersion: toVersion,
+      upgradedAt: new Date().toISOString(),
+    });
+  }
+
+  return {
+    fromVersion: manifest.generatorVersion,
+    toVersion,
+    files: results,
+    obsolete,
+  };
+}
@@ -1,36 +1,27 @@
-#!/usr/bin/env node
-
-import { Command } from 'commander';
-import { createCommand } from './commands/create.js';
-import { readFile } from './utils/file-system.js';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
 /**
- * Main CLI entry point
+ * Library entry for app-workspace-generator. The CLI lives in cli.ts; this
+ * module only exports functions and never prints or exits on import.
+ *
+ * @example
+ * import { generate } from 'app-workspace-generator';
+ * const result = await generate(config, { targetDir: './my-app' });
  */
-async function main() {
-  const packageJsonPath = path.resolve(__dirname, '../package.json');
-  const packageJson = JSON.parse(await readFile(packageJsonPath));
-
-  const program = new Command();
-
-  program
-    .name('app-workspace-generator')
-    .description('Generate production-ready web app workspaces with AI agent instructions')
-    .version(packageJson.version);
-
-  // Add create command
-  program.addCommand(createCommand());
-
-  // Parse arguments
-  await program.parseAsync(process.argv);
-}
 
-main().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+export { generate } from './api.js';
+export type { GenerateOptions, GenerateResult } from './api.js';
+export { validateConfig } from './validators/config-schema.js';
+export type { ConfigValidationResult } from './validators/config-schema.js';
+export { configToTemplateContext } from './utils/config-builder.js';
+export { defineConfig } from './config.js';
+export type { ConfigInput } from './config.js';
+export { silentLogger } from './utils/logger.js';
+export type { Logger } from './utils/logger.js';
+export { GeneratorError, ErrorCode } from './utils/errors.js';
+export type { GeneratedFile } from './generators/base/manifest.js';
+export type { FileConflict } from './generators/base/conflicts.js';
+export type {
+  WorkspaceConfig,
+  TemplateContext,
+  ConfigDiagnostic,
+  ConflictStrategy,
+} from './types/config.js';
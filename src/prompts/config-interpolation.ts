@@ -0,0 +1,84 @@
+import { errors } from '../utils/errors.js';
+import type { ConfigDiagnostic } from '../types/config.js';
+
+/**
+ * Environment variable interpolation in config values:
+ *
+ *   ${AUTHOR_NAME}                     value of AUTHOR_NAME, which must be set
+ *   ${env:FIREBASE_PROJECT_ID:-demo}   "demo" when unset or empty
+ *   $${NOT_A_VARIABLE}                 the literal text ${NOT_A_VARIABLE}
+ *
+ * Only string values are interpolated, never keys, and results stay strings.
+ * Hook commands are left as written: they are expanded by the shell when the
+ * hook runs, where AWG_PROJECT_DIR and friends are set.
+ */
+
+const VARIABLE_PATTERN = /(\$)?\$\{(?:env:)?([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// Subtrees passed through untouched, by JSON pointer
+const UNINTERPOLATED_POINTERS = ['/hooks'];
+
+/**
+ * Interpolate every string value of a parsed config file. All undefined
+ * variables are reported together, by the JSON pointer of the value using them.
+ */
+export function interpolateConfig(
+  config: Record<string, unknown>,
+  source: string,
+  env: Record<string, string | undefined> = process.env
+): Record<string, unknown> {
+  const diagnostics: ConfigDiagnostic[] = [];
+
+  const interpolate = (value: unknown, pointer: string): unknown => {
+    if (UNINTERPOLATED_POINTERS.includes(pointer)) {
+      return value;
+    }
+
+    if (typeof value === 'string') {
+      return value.replace(VARIABLE_PATTERN, (match, escaped, name: string, fallback?: string) => {
+        if (escaped) {
+          return match.slice(1);
+        }
+
+        const resolved = env[name];
+        if (resolved !== undefined && (resolved !== '' || fallback === undefined)) {
+          return resolved;
+        }
+        if (fallback !== undefined) {
+          return fallback;
+        }
+
+        diagnostics.push({
+          path: pointer || '/',
+          severity: 'error',
+          message: `environment variable ${name} is not set`,
+          value,
+        });
+        return match;
+      });
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, i) => interpolate(item, `${pointer}/${i}`));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          interpolate(item, `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`),
+        ])
+      );
+    }
+
+    return value;
+  };
+
+  const interpolated = interpolate(config, '') as Record<string, unknown>;
+
+  if (diagnostics.length > 0) {
+    throw errors.configVariablesUndefined(source, diagnostics);
+  }
+
+  return interpolated;
+}
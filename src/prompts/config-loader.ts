@@ -2,44 +2,287 @@ import fs from 'fs-extra';
 import path from 'path';
 import type { WorkspaceConfig } from '../types/config.js';
 import { validateConfig } from '../validators/config-schema.js';
-import { logger } from '../utils/logger.js';
+import { errors } from '../utils/errors.js';
+import { findPreset, listPresets } from '../utils/presets.js';
+import { isConfigFilePath, parseConfigFile } from './config-parsers.js';
+import { CONFIG_VERSION, migrateConfig } from './config-migrations.js';
+import { interpolateConfig } from './config-interpolation.js';
+import { isModuleHook } from '../generators/base/hooks.js';
+import { DEFAULT_BACKEND_FEATURES, DEFAULT_FIREBASE_PATTERN } from '../utils/config-builder.js';
 
 /**
- * Load and validate configuration from a JSON file
+ * File name used when saving a config without an explicit path
+ */
+export const DEFAULT_CONFIG_FILE = 'awg.config.json';
+
+/**
+ * Load and validate configuration from a JSON, JSONC/JSON5, YAML or TS/ESM file.
+ * A config can name a parent with "extends" (a path relative to the file, or a
+ * preset name); the chain is deep-merged, nearest file winning, before validation.
+ * Each file has ${VAR} references interpolated and is migrated to the current
+ * config version first; anything the chain leaves out is taken from
+ * createDefaultConfig.
  */
 export async function loadConfigFromFile(configPath: string): Promise<WorkspaceConfig> {
   // Resolve absolute path
   const absolutePath = path.resolve(process.cwd(), configPath);
 
-  // Check if file exists
-  const exists = await fs.pathExists(absolutePath);
-  if (!exists) {
-    throw new Error(`Config file not found: ${absolutePath}`);
-  }
+  const config = await resolveConfigFile(absolutePath);
+
+  // Validate config
+  return validateResolvedConfig(config, toSource(absolutePath));
+}
+
+/**
+ * A config loaded for batch generation, or the error that prevented loading it
+ */
+export interface LoadedConfig {
+  source: string; // File path, with the array index for files holding several configs
+  config?: WorkspaceConfig;
+  error?: unknown;
+}
+
+/**
+ * Load every config in a file for batch generation: the file holds either one
+ * config or an array of them. Each entry is resolved like loadConfigFromFile,
+ * with "extends" paths relative to the file, and fails on its own.
+ */
+export async function loadConfigsFromFile(configPath: string): Promise<LoadedConfig[]> {
+  const absolutePath = path.resolve(process.cwd(), configPath);
+  const source = toSource(absolutePath);
+  const content = await readConfigFileContent(absolutePath);
+
+  const entries = Array.isArray(content)
+    ? content.map((entry, i) => ({ entry, source: `${source}[${i}]` }))
+    : [{ entry: content, source }];
+
+  const loaded: LoadedConfig[] = [];
+  for (const { entry, source: entrySource } of entries) {
+    try {
+      if (!isPlainObject(entry)) {
+        throw errors.invalidConfig(`Config must be an object: ${entrySource}`);
+      }
 
-  // Read and parse JSON
-  let config: unknown;
-  try {
-    const content = await fs.readFile(absolutePath, 'utf-8');
-    config = JSON.parse(content);
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to parse config file: ${error.message}`);
+      const config = withDefaults(await resolveConfigEntry(entry, absolutePath, entrySource, []));
+      loaded.push({ source: entrySource, config: validateResolvedConfig(config, entrySource) });
+    } catch (error) {
+      loaded.push({ source: entrySource, error });
     }
-    throw new Error('Failed to parse config file');
   }
 
-  // Validate config
+  return loaded;
+}
+
+/**
+ * Read a config file and everything it extends, filled in from the defaults,
+ * without validating the result
+ */
+export async function resolveConfigFile(configPath: string): Promise<Record<string, unknown>> {
+  return withDefaults(await resolveConfigChain(path.resolve(process.cwd(), configPath), []));
+}
+
+/**
+ * Fill in whatever a resolved chain leaves out from createDefaultConfig, and the
+ * backend settings the default config has no backend for
+ */
+function withDefaults(config: Record<string, unknown>): Record<string, unknown> {
+  const resolved = deepMerge({ ...createDefaultConfig('') }, config);
+
+  // The name has no sensible default, so a missing one is left for validation to report
+  if (config.name === undefined) {
+    delete resolved.name;
+  }
+
+  if (isPlainObject(resolved.backend)) {
+    const backend = resolved.backend;
+    resolved.backend = {
+      ...backend,
+      features: backend.features ?? (backend.type === 'none' ? [] : DEFAULT_BACKEND_FEATURES),
+      ...(backend.type === 'firebase' && {
+        firebasePattern: backend.firebasePattern ?? DEFAULT_FIREBASE_PATTERN,
+      }),
+    };
+  }
+
+  return resolved;
+}
+
+/**
+ * Throw the validation diagnostics of a resolved config, if it has errors
+ */
+function validateResolvedConfig(config: Record<string, unknown>, source: string): WorkspaceConfig {
   const validation = validateConfig(config);
   if (!validation.valid) {
-    logger.error('Config validation failed:');
-    validation.errors.forEach((error) => {
-      logger.error(`  - ${error}`);
-    });
-    throw new Error('Invalid configuration');
+    throw errors.configValidationFailed(source, validation.diagnostics);
   }
 
-  return config as WorkspaceConfig;
+  return config as unknown as WorkspaceConfig;
+}
+
+/**
+ * Read a config file and merge it over the config it extends, if any
+ */
+async function resolveConfigChain(
+  absolutePath: string,
+  chain: string[]
+): Promise<Record<string, unknown>> {
+  if (chain.includes(absolutePath)) {
+    const cycle = [...chain, absolutePath].map(toSource);
+    throw errors.invalidConfig(`Circular "extends" chain: ${cycle.join(' → ')}`);
+  }
+
+  return await resolveConfigEntry(
+    await readConfigFile(absolutePath),
+    absolutePath,
+    toSource(absolutePath),
+    chain
+  );
+}
+
+/**
+ * Interpolate and migrate a config read from absolutePath, then merge it over
+ * the config it extends, if any
+ */
+async function resolveConfigEntry(
+  entry: Record<string, unknown>,
+  absolutePath: string,
+  source: string,
+  chain: string[]
+): Promise<Record<string, unknown>> {
+  const { extends: parent, ...config } = resolveHookModules(
+    migrateConfig(interpolateConfig(entry, source), source).config,
+    path.dirname(absolutePath)
+  );
+  if (parent === undefined) {
+    return config;
+  }
+
+  if (typeof parent !== 'string') {
+    throw errors.invalidConfig(`"extends" must be a file path or preset name in ${source}`);
+  }
+
+  const parentPath = await resolveExtendsTarget(parent, path.dirname(absolutePath));
+  const base = await resolveConfigChain(parentPath, [...chain, absolutePath]);
+  return deepMerge(base, config);
+}
+
+/**
+ * Make module hook paths absolute, relative to the file declaring them like
+ * "extends", so they still resolve once merged into another config. Malformed
+ * hooks are left for validation to report.
+ */
+function resolveHookModules(
+  config: Record<string, unknown>,
+  fromDir: string
+): Record<string, unknown> {
+  if (!isPlainObject(config.hooks)) {
+    return config;
+  }
+
+  const hooks = Object.fromEntries(
+    Object.entries(config.hooks).map(([phase, commands]) => [
+      phase,
+      Array.isArray(commands)
+        ? commands.map((hook: unknown) =>
+            typeof hook === 'string' && isModuleHook(hook)
+              ? path.resolve(fromDir, hook.trim())
+              : hook
+          )
+        : commands,
+    ])
+  );
+  return { ...config, hooks };
+}
+
+/**
+ * Resolve an "extends" value to a file: paths are relative to the extending file,
+ * anything else is a preset name
+ */
+async function resolveExtendsTarget(target: string, fromDir: string): Promise<string> {
+  if (target.startsWith('.') || path.isAbsolute(target) || isConfigFilePath(target)) {
+    return path.resolve(fromDir, target);
+  }
+
+  const preset = await findPreset(target);
+  if (!preset) {
+    throw errors.presetNotFound(
+      target,
+      (await listPresets()).map((p) => p.name)
+    );
+  }
+  return preset.path;
+}
+
+/**
+ * Read and parse a single config file without validating it
+ */
+export async function readConfigFile(absolutePath: string): Promise<Record<string, unknown>> {
+  const config = await readConfigFileContent(absolutePath);
+
+  if (!isPlainObject(config)) {
+    throw errors.invalidConfig(`Config must be an object: ${absolutePath}`);
+  }
+
+  return config;
+}
+
+/**
+ * Parse a config file, whatever its top-level value
+ */
+async function readConfigFileContent(absolutePath: string): Promise<unknown> {
+  // Check if file exists
+  const exists = await fs.pathExists(absolutePath);
+  if (!exists) {
+    throw errors.configFileNotFound(absolutePath);
+  }
+
+  // Parse by extension: JSON, JSONC/JSON5, YAML or a TS/ESM module
+  return await parseConfigFile(absolutePath);
+}
+
+/**
+ * A path as shown in messages: relative to the working directory when possible
+ */
+function toSource(absolutePath: string): string {
+  return path.relative(process.cwd(), absolutePath) || absolutePath;
+}
+
+/**
+ * Merge override into base: objects are merged key by key, anything else
+ * (including arrays) is replaced
+ */
+function deepMerge(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    const baseValue = merged[key];
+    merged[key] =
+      isPlainObject(baseValue) && isPlainObject(value) ? deepMerge(baseValue, value) : value;
+  }
+
+  return merged;
+}
+
+/**
+ * Check for a JSON object (not null or an array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Write a config as JSON that loadConfigFromFile accepts, returning the absolute path
+ */
+export async function saveConfigToFile(
+  config: WorkspaceConfig,
+  configPath: string
+): Promise<string> {
+  const absolutePath = path.resolve(process.cwd(), configPath);
+  await fs.outputJson(absolutePath, config, { spaces: 2 });
+  return absolutePath;
 }
 
 /**
@@ -48,6 +291,7 @@ export async function loadConfigFromFile(configPath: string): Promise<WorkspaceC
  */
 export function createDefaultConfig(projectName: string): WorkspaceConfig {
   return {
+    version: CONFIG_VERSION,
     name: projectName,
     workspace: {
       type: 'single',
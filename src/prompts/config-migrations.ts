@@ -0,0 +1,113 @@
+import { errors } from '../utils/errors.js';
+
+/**
+ * Config migrations - configs record the format version they were written for
+ * and are upgraded step by step on load, so files checked into projects keep
+ * working across generator releases.
+ *
+ * A file without "version" is version 1, unless it leaves out a section that
+ * version 1 required: such a partial config relies on the defaults, which are
+ * always current, so it is read as the current version.
+ */
+
+export const CONFIG_VERSION = 3;
+
+// Sections every version 1 file had to spell out
+const V1_REQUIRED_SECTIONS = ['workspace', 'web', 'documentation'];
+
+type RawConfig = Record<string, unknown>;
+
+interface ConfigMigration {
+  to: number;
+  description: string;
+  /**
+   * Upgrade config in place. Defaults are only filled in for standalone files;
+   * a file with "extends" inherits them from its parent instead.
+   */
+  migrate: (config: RawConfig, standalone: boolean) => void;
+}
+
+const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    to: 2,
+    description: 'web.stateManagement introduced, defaulting to "none"',
+    migrate: (config, standalone) => {
+      const web = getObject(config, 'web');
+      if (web && standalone && web.stateManagement === undefined) {
+        web.stateManagement = 'none';
+      }
+    },
+  },
+  {
+    to: 3,
+    description: 'web.formatting split from web.linting, keeping the linting value',
+    migrate: (config) => {
+      const web = getObject(config, 'web');
+      if (web && web.formatting === undefined && web.linting !== undefined) {
+        web.formatting = web.linting;
+      }
+    },
+  },
+];
+
+export interface MigrationResult {
+  config: RawConfig;
+  fromVersion: number;
+  applied: string[]; // Descriptions of the migrations that ran
+}
+
+/**
+ * Upgrade a raw config to CONFIG_VERSION without modifying the input.
+ * Throws for configs written by a newer generator.
+ */
+export function migrateConfig(raw: RawConfig, source: string): MigrationResult {
+  const fromVersion = raw.version ?? (isPartialConfig(raw) ? CONFIG_VERSION : 1);
+
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw errors.configMigrationFailed(source, '"version" must be a positive integer');
+  }
+
+  if (fromVersion > CONFIG_VERSION) {
+    throw errors.configMigrationFailed(
+      source,
+      `written for config version ${fromVersion}, but this generator only understands up to version ${CONFIG_VERSION}`
+    );
+  }
+
+  const config = JSON.parse(JSON.stringify(raw)) as RawConfig;
+  const standalone = config.extends === undefined;
+  const applied: string[] = [];
+
+  for (const migration of CONFIG_MIGRATIONS.filter((m) => m.to > fromVersion)) {
+    migration.migrate(config, standalone);
+    applied.push(`v${migration.to}: ${migration.description}`);
+  }
+
+  // Keep "version" next to "$schema" and "extends" at the top of rewritten files
+  delete config.version;
+  const { $schema, extends: parent, ...rest } = config;
+  return {
+    config: {
+      ...($schema !== undefined && { $schema }),
+      ...(parent !== undefined && { extends: parent }),
+      version: CONFIG_VERSION,
+      ...rest,
+    },
+    fromVersion,
+    applied,
+  };
+}
+
+/**
+ * Whether a config leaves out sections for the defaults to fill in
+ */
+function isPartialConfig(config: RawConfig): boolean {
+  return V1_REQUIRED_SECTIONS.some((key) => config[key] === undefined);
+}
+
+function getObject(config: RawConfig, key: string): RawConfig | undefined {
+  const value = config[key];
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as RawConfig)
+    : undefined;
+}
@@ -0,0 +1,249 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { isDeepStrictEqual } from 'util';
+import fs from 'fs-extra';
+import JSON5 from 'json5';
+import YAML from 'yaml';
+import { createJiti } from 'jiti';
+import { errors } from '../utils/errors.js';
+
+/**
+ * Config file formats - JSON, JSONC/JSON5, YAML and TypeScript/ESM modules
+ */
+
+type ConfigFormat = 'json' | 'json5' | 'yaml' | 'module';
+
+const FORMATS_BY_EXTENSION: Record<string, ConfigFormat> = {
+  '.json': 'json',
+  '.jsonc': 'json5',
+  '.json5': 'json5',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.ts': 'module',
+  '.mts': 'module',
+  '.mjs': 'module',
+  '.js': 'module',
+};
+
+/**
+ * Whether a path has one of the supported config file extensions
+ */
+export function isConfigFilePath(filePath: string): boolean {
+  return path.extname(filePath) in FORMATS_BY_EXTENSION;
+}
+
+/**
+ * Parse a config file by its extension. Syntax errors report line and column.
+ * Unknown extensions are parsed as JSON.
+ */
+export async function parseConfigFile(absolutePath: string): Promise<unknown> {
+  const format = FORMATS_BY_EXTENSION[path.extname(absolutePath)] ?? 'json';
+
+  if (format === 'module') {
+    return await importConfigModule(absolutePath);
+  }
+
+  const content = await fs.readFile(absolutePath, 'utf-8');
+
+  switch (format) {
+    case 'json':
+      try {
+        return JSON.parse(content);
+      } catch (error) {
+        const location = locateJsonError(content, error as Error);
+        throw errors.configParseFailed(
+          absolutePath,
+          (error as Error).message.split('\n')[0]!,
+          location?.line,
+          location?.column
+        );
+      }
+
+    case 'json5':
+      try {
+        return JSON5.parse(content);
+      } catch (error) {
+        const { message, lineNumber, columnNumber } = error as SyntaxError & {
+          lineNumber?: number;
+          columnNumber?: number;
+        };
+        throw errors.configParseFailed(
+          absolutePath,
+          message.replace(/ at \d+:\d+$/, ''),
+          lineNumber,
+          columnNumber
+        );
+      }
+
+    case 'yaml':
+      try {
+        return YAML.parse(content);
+      } catch (error) {
+        if (error instanceof YAML.YAMLError) {
+          const position = error.linePos?.[0];
+          throw errors.configParseFailed(
+            absolutePath,
+            error.message.split(/ at line \d+/)[0]!,
+            position?.line,
+            position?.col
+          );
+        }
+        throw error;
+      }
+  }
+}
+
+/**
+ * Rewrite the content of a config file with a new config, in its format and
+ * keeping its comments. Returns undefined when that is not possible: TypeScript
+ * and ESM configs are code, and JSONC/JSON5 comments cannot be carried over.
+ */
+export function serializeConfigFile(
+  absolutePath: string,
+  config: Record<string, unknown>,
+  original: string
+): string | undefined {
+  switch (FORMATS_BY_EXTENSION[path.extname(absolutePath)] ?? 'json') {
+    case 'json':
+      return `${JSON.stringify(config, null, 2)}\n`;
+    case 'json5':
+      return hasComments(original) ? undefined : `${JSON.stringify(config, null, 2)}\n`;
+    case 'yaml': {
+      const document = YAML.parseDocument(original);
+      updateYamlNode(document, [], config);
+      return document.toString();
+    }
+    case 'module':
+      return undefined;
+  }
+}
+
+/**
+ * Bring the YAML node at keys in line with value, editing only what differs so
+ * comments on everything else stay where they are
+ */
+function updateYamlNode(document: YAML.Document, keys: string[], value: unknown): void {
+  const node = keys.length === 0 ? document.contents : document.getIn(keys, true);
+
+  if (typeof value === 'object' && value !== null && !Array.isArray(value) && YAML.isMap(node)) {
+    for (const item of [...node.items]) {
+      if (!(keyOf(item) in value)) {
+        node.delete(item.key);
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      updateYamlNode(document, [...keys, key], child);
+    }
+
+    // Added keys go where the config has them, e.g. "version" at the top,
+    // below a comment that heads the map
+    const order = Object.keys(value);
+    const [first] = node.items;
+    node.items.sort((a, b) => order.indexOf(keyOf(a)) - order.indexOf(keyOf(b)));
+    const [newFirst] = node.items;
+    if (first && newFirst && newFirst !== first && YAML.isScalar(first.key)) {
+      const key = YAML.isScalar(newFirst.key) ? newFirst.key : new YAML.Scalar(newFirst.key);
+      key.commentBefore = first.key.commentBefore;
+      first.key.commentBefore = undefined;
+      newFirst.key = key;
+    }
+    return;
+  }
+
+  const current = YAML.isNode(node) ? node.toJS(document) : node;
+  if (!isDeepStrictEqual(current, value)) {
+    document.setIn(keys, value);
+  }
+}
+
+/**
+ * The key of a YAML map entry as a string
+ */
+function keyOf(item: YAML.Pair): string {
+  return String(YAML.isScalar(item.key) ? item.key.value : item.key);
+}
+
+/**
+ * Whether JSONC/JSON5 content has a line or block comment outside strings
+ */
+function hasComments(content: string): boolean {
+  let quote: string | undefined;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '/' && (content[i + 1] === '/' || content[i + 1] === '*')) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Load the default export of a TypeScript or ESM config file. Imports of
+ * `app-workspace-generator/config` resolve to this CLI, installed or not.
+ */
+async function importConfigModule(absolutePath: string): Promise<unknown> {
+  const currentFile = fileURLToPath(import.meta.url);
+  const configHelpers = path.join(
+    path.dirname(currentFile),
+    '..',
+    `config${path.extname(currentFile)}`
+  );
+
+  const jiti = createJiti(import.meta.url, {
+    moduleCache: false,
+    alias: { 'app-workspace-generator/config': configHelpers },
+  });
+
+  try {
+    return await jiti.import(absolutePath, { default: true });
+  } catch (error) {
+    throw errors.configParseFailed(
+      absolutePath,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+}
+
+/**
+ * Line and column of a JSON.parse error, from the message when Node reports a
+ * position, otherwise from the JSON5 parser which always does
+ */
+function locateJsonError(
+  content: string,
+  error: Error
+): { line: number; column: number } | undefined {
+  const lineColumn = /line (\d+) column (\d+)/.exec(error.message);
+  if (lineColumn) {
+    return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+  }
+
+  const position = /position (\d+)/.exec(error.message);
+  if (position) {
+    const before = content.slice(0, Number(position[1])).split('\n');
+    return { line: before.length, column: before[before.length - 1]!.length + 1 };
+  }
+
+  try {
+    JSON5.parse(content);
+  } catch (json5Error) {
+    const { lineNumber, columnNumber } = json5Error as {
+      lineNumber?: number;
+      columnNumber?: number;
+    };
+    if (lineNumber && columnNumber) {
+      return { line: lineNumber, column: columnNumber };
+    }
+  }
+
+  return undefined;
+}
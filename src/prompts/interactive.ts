@@ -13,11 +13,16 @@ import type {
   PackageManagerType,
 } from '../types/config.js';
 import { validateProjectName, checkDirectoryExists } from '../validators/project-name.js';
+import { getPlannedReason, type SupportedOption } from '../validators/capabilities.js';
+import { DEFAULT_FIREBASE_PATTERN } from '../utils/config-builder.js';
 
 /**
  * Run interactive prompts to gather project configuration
  */
-export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers> {
+export async function runInteractivePrompts(
+  cwd: string,
+  allowExisting = false
+): Promise<PromptAnswers> {
   console.log();
   console.log('┌─────────────────────────────────────────────────┐');
   console.log('│                                                 │');
@@ -47,6 +52,7 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
     aiInstructions: boolean;
     architecture: boolean;
     linting: boolean;
+    formatting: boolean;
     gitHooks: boolean;
     packageManager: PackageManagerType;
   }>([
@@ -62,7 +68,7 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
         }
 
         const exists = await checkDirectoryExists(input, cwd);
-        if (exists) {
+        if (exists && !allowExisting) {
           return `Directory "${input}" already exists. Please choose a different name.`;
         }
 
@@ -73,7 +79,7 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
       type: 'list',
       name: 'workspaceType',
       message: 'What type of workspace?',
-      choices: [
+      choices: withSupport('workspace.type', [
         {
           name: 'Single web app (recommended for starting)',
           value: 'single',
@@ -83,11 +89,10 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
           value: 'pwa',
         },
         {
-          name: 'Multi-platform (web + iOS + Android) - Phase 3 (Coming soon)',
+          name: 'Multi-platform (web + iOS + Android) - Phase 3',
           value: 'multi',
-          disabled: true,
         },
-      ],
+      ]),
       default: 'single',
     },
     {
@@ -115,22 +120,20 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
       type: 'list',
       name: 'framework',
       message: 'Which framework?',
-      choices: [
+      choices: withSupport('web.framework', [
         {
           name: 'Next.js (recommended)',
           value: 'next',
         },
         {
-          name: 'Vite (Coming soon)',
+          name: 'Vite',
           value: 'vite',
-          disabled: true,
         },
         {
-          name: 'Remix (Coming soon)',
+          name: 'Remix',
           value: 'remix',
-          disabled: true,
         },
-      ],
+      ]),
       default: 'next',
     },
     {
@@ -143,87 +146,79 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
       type: 'list',
       name: 'styling',
       message: 'Which styling solution?',
-      choices: [
+      choices: withSupport('web.styling', [
         {
           name: 'Tailwind CSS (recommended)',
           value: 'tailwind',
         },
         {
-          name: 'CSS Modules (Coming soon)',
+          name: 'CSS Modules',
           value: 'css-modules',
-          disabled: true,
         },
         {
-          name: 'Styled Components (Coming soon)',
+          name: 'Styled Components',
           value: 'styled-components',
-          disabled: true,
         },
-      ],
+      ]),
       default: 'tailwind',
     },
     {
       type: 'list',
       name: 'uiLibrary',
       message: 'UI component library?',
-      choices: [
+      choices: withSupport('web.ui', [
         {
           name: 'None (recommended for custom design)',
           value: 'none',
         },
         {
-          name: 'Radix UI (Coming soon)',
+          name: 'Radix UI',
           value: 'radix',
-          disabled: true,
         },
         {
-          name: 'shadcn/ui (Coming soon)',
+          name: 'shadcn/ui',
           value: 'shadcn',
-          disabled: true,
         },
         {
-          name: 'Material-UI (Coming soon)',
+          name: 'Material-UI',
           value: 'mui',
-          disabled: true,
         },
         {
-          name: 'Chakra UI (Coming soon)',
+          name: 'Chakra UI',
           value: 'chakra',
-          disabled: true,
         },
-      ],
+      ]),
       default: 'none',
     },
     {
       type: 'list',
       name: 'testing',
       message: 'Testing framework?',
-      choices: [
+      choices: withSupport('web.testing', [
         {
           name: 'Playwright (E2E testing)',
           value: 'playwright',
         },
         {
-          name: 'Cypress (Coming soon)',
+          name: 'Cypress',
           value: 'cypress',
-          disabled: true,
         },
         {
-          name: 'Vitest (Coming soon)',
+          name: 'Vitest',
           value: 'vitest',
-          disabled: true,
         },
         {
           name: 'None (skip testing)',
           value: 'none',
         },
-      ],
+      ]),
       default: 'playwright',
     },
     {
       type: 'list',
       name: 'stateManagement',
       message: 'State management solution?',
-      choices: [
+      choices: withSupport('web.stateManagement', [
         {
           name: 'React Context (Built-in, good for auth & theme)',
           value: 'context',
@@ -236,22 +231,21 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
           name: 'None (use local state only)',
           value: 'none',
         },
-      ],
+      ]),
       default: 'context',
     },
     {
       type: 'list',
       name: 'backend',
       message: 'Backend services?',
-      choices: [
+      choices: withSupport('backend.type', [
         {
           name: 'Firebase (Auth, Firestore, Storage)',
           value: 'firebase',
         },
         {
-          name: 'Supabase (Coming soon)',
+          name: 'Supabase',
           value: 'supabase',
-          disabled: true,
         },
         {
           name: 'Custom backend',
@@ -261,7 +255,7 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
           name: 'None (frontend only)',
           value: 'none',
         },
-      ],
+      ]),
       default: 'none',
     },
     {
@@ -290,7 +284,7 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
           value: 'server-first',
         },
       ],
-      default: 'server-first',
+      default: DEFAULT_FIREBASE_PATTERN,
       when: (answers) => answers.backend === 'firebase',
     },
     {
@@ -308,7 +302,13 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
     {
       type: 'confirm',
       name: 'linting',
-      message: 'Set up ESLint + Prettier?',
+      message: 'Set up ESLint?',
+      default: true,
+    },
+    {
+      type: 'confirm',
+      name: 'formatting',
+      message: 'Set up Prettier?',
       default: true,
     },
     {
@@ -338,3 +338,39 @@ export async function runInteractivePrompts(cwd: string): Promise<PromptAnswers>
 
   return answers;
 }
+
+/**
+ * Ask whether to save the answers as a config file; returns the chosen path or null
+ */
+export async function promptSaveConfig(defaultPath: string): Promise<string | null> {
+  const { save, configPath } = await inquirer.prompt<{ save: boolean; configPath?: string }>([
+    {
+      type: 'confirm',
+      name: 'save',
+      message: 'Save these answers as a config file?',
+      default: false,
+    },
+    {
+      type: 'input',
+      name: 'configPath',
+      message: 'Config file path:',
+      default: defaultPath,
+      when: (answers) => answers.save,
+    },
+  ]);
+
+  return save && configPath ? configPath : null;
+}
+
+/**
+ * Disable the choices the capability matrix marks as planned
+ */
+function withSupport<T extends string>(
+  option: SupportedOption,
+  choices: { name: string; value: T }[]
+): { name: string; value: T; disabled: string | false }[] {
+  return choices.map((choice) => ({
+    ...choice,
+    disabled: getPlannedReason(option, choice.value) ? 'Coming soon' : false,
+  }));
+}
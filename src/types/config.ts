@@ -1,3 +1,5 @@
+import type { Logger } from '../utils/logger.js';
+
 /**
  * Configuration schema for app-workspace-generator
  */
@@ -13,21 +15,34 @@ export type BackendFeature = 'auth' | 'database' | 'storage' | 'functions';
 export type FirebasePattern = 'client-side' | 'server-first';
 export type StateManagementType = 'context' | 'zustand' | 'none';
 export type PackageManagerType = 'npm' | 'yarn' | 'pnpm' | 'bun';
+export type OfflineMode = 'prefer' | 'only'; // --prefer-offline or --offline installs
 export type CICDPlatform = 'github' | 'gitlab' | 'none';
+export type ConflictStrategy = 'skip' | 'overwrite' | 'prompt' | 'rename';
 
 export interface WorkspaceConfig {
-  // Project metadata
+  /**
+   * Config format version; older files are migrated on load (see "config migrate")
+   * @asType integer
+   * @minimum 1
+   */
+  version?: number;
+
+  /**
+   * Project name, used as the directory and package name
+   * @minLength 1
+   */
   name: string;
   description?: string;
   author?: string;
 
-  // Workspace settings
+  /** Workspace settings */
   workspace: {
     type: WorkspaceType;
+    /** @minItems 1 */
     platforms: PlatformType[];
   };
 
-  // Web app configuration
+  /** Web app configuration */
   web: {
     framework: FrameworkType;
     typescript: boolean;
@@ -40,36 +55,41 @@ export interface WorkspaceConfig {
     gitHooks: boolean;
   };
 
-  // Backend services (optional)
+  /** Backend services */
   backend?: {
     type: BackendType;
     features: BackendFeature[];
-    firebasePattern?: FirebasePattern; // Only for Firebase backend
+    /** Only for the Firebase backend */
+    firebasePattern?: FirebasePattern;
   };
 
-  // Documentation settings
+  /** Documentation settings */
   documentation: {
-    aiInstructions: boolean; // Generate CLAUDE.md
-    architecture: boolean; // Generate architecture docs
-    apiDocs: boolean; // Generate API documentation
-    styleguide: boolean; // Generate design system docs
+    /** Generate CLAUDE.md */
+    aiInstructions: boolean;
+    /** Generate architecture docs */
+    architecture: boolean;
+    /** Generate API documentation */
+    apiDocs: boolean;
+    /** Generate design system docs */
+    styleguide: boolean;
   };
 
-  // CI/CD settings (optional)
+  /** CI/CD settings */
   cicd?: {
     platform: CICDPlatform;
     semanticRelease: boolean;
     autoDeployment: boolean;
   };
 
-  // PWA settings (Phase 2 - optional)
+  /** PWA settings (Phase 2) */
   pwa?: {
     offline: boolean;
     installable: boolean;
     notifications: boolean;
   };
 
-  // Native app settings (Phase 3 - optional)
+  /** Native app settings (Phase 3) */
   native?: {
     ios?: {
       bundleId: string;
@@ -80,8 +100,73 @@ export interface WorkspaceConfig {
     };
   };
 
-  // Package manager preference
+  /** Package manager preference */
   packageManager?: PackageManagerType;
+
+  /** Commands run around generation, in the project directory */
+  hooks?: ConfigHooks;
+}
+
+/**
+ * Lifecycle hooks. Each entry is a shell command, or the path of a local .js,
+ * .mjs or .cjs module (relative to the config file declaring it) run with Node.
+ * Hooks get AWG_HOOK, AWG_PROJECT_DIR and AWG_TEMPLATE_CONTEXT (JSON) in their
+ * environment, and do not run in a dry run. ${VAR} in a hook is expanded by
+ * the shell, not when the config is loaded.
+ */
+export interface ConfigHooks {
+  /**
+   * Before any file is written, in the still empty staging directory that
+   * becomes the project (also AWG_STAGING_DIR). AWG_PROJECT_DIR is the final
+   * location, which only exists yet when generating over an existing project.
+   */
+  preGenerate?: string[];
+  /** Once the files are in place, before dependencies are installed */
+  postGenerate?: string[];
+  /** After dependencies are installed; skipped with --skip-install */
+  postInstall?: string[];
+}
+
+export type HookPhase = keyof ConfigHooks;
+
+/**
+ * A config file as written on disk - the schema published by "awg schema"
+ */
+export interface WorkspaceConfigFile extends WorkspaceConfig {
+  /** JSON Schema reference, for editor autocompletion */
+  $schema?: string;
+  /** Parent config: a path relative to this file, or a preset name */
+  extends?: string;
+}
+
+/**
+ * A problem found while validating a config, located by JSON pointer
+ */
+export interface ConfigDiagnostic {
+  path: string;
+  severity: 'error' | 'warning';
+  message: string;
+  value?: unknown;
+  allowed?: unknown[];
+  suggestion?: string; // Closest allowed value or known option, when one is close
+}
+
+/**
+ * Individual options set on the command line, layered over a base config
+ */
+export interface ConfigOverrides {
+  backend?: BackendType;
+  backendFeatures?: BackendFeature[];
+  firebasePattern?: FirebasePattern;
+  stateManagement?: StateManagementType;
+  testing?: TestingType;
+  ui?: UILibraryType;
+  styling?: StylingType;
+  packageManager?: PackageManagerType;
+  linting?: boolean;
+  formatting?: boolean;
+  gitHooks?: boolean;
+  pwa?: boolean;
 }
 
 /**
@@ -105,6 +190,7 @@ export interface PromptAnswers {
   aiInstructions: boolean;
   architecture: boolean;
   linting: boolean;
+  formatting: boolean;
   gitHooks: boolean;
   packageManager: PackageManagerType;
 }
@@ -152,5 +238,10 @@ export interface GenerationOptions {
   config: WorkspaceConfig;
   templateContext: TemplateContext;
   skipInstall?: boolean;
-  verbose?: boolean;
+  offline?: OfflineMode; // Install from the package manager cache
+  git?: boolean; // Initialize a repository with an initial commit
+  dryRun?: boolean; // Record the file plan instead of writing to disk
+  conflict?: ConflictStrategy; // How to handle files that already exist in targetDir
+  logger?: Logger; // Report progress here instead of printing to the terminal
+  exitOnInterrupt?: boolean; // Remove staged files and exit on SIGINT/SIGTERM; default without a logger
 }
@@ -1,15 +1,23 @@
 import type {
+  ConfigOverrides,
   PromptAnswers,
   WorkspaceConfig,
   TemplateContext,
   BackendFeature,
+  FirebasePattern,
 } from '../types/config.js';
+import { CONFIG_VERSION } from '../prompts/config-migrations.js';
+
+// Backend settings a config, flag or `add` leaves out, the same on every path
+export const DEFAULT_BACKEND_FEATURES: BackendFeature[] = ['auth', 'database'];
+export const DEFAULT_FIREBASE_PATTERN: FirebasePattern = 'server-first';
 
 /**
  * Convert prompt answers to WorkspaceConfig
  */
 export function answersToConfig(answers: PromptAnswers): WorkspaceConfig {
   return {
+    version: CONFIG_VERSION,
     name: answers.projectName,
     workspace: {
       type: answers.workspaceType,
@@ -23,7 +31,7 @@ export function answersToConfig(answers: PromptAnswers): WorkspaceConfig {
       testing: answers.testing,
       stateManagement: answers.stateManagement,
       linting: answers.linting,
-      formatting: answers.linting, // Use same value as linting for formatting
+      formatting: answers.formatting,
       gitHooks: answers.gitHooks,
     },
     backend:
@@ -52,12 +60,76 @@ export function answersToConfig(answers: PromptAnswers): WorkspaceConfig {
   };
 }
 
+/**
+ * Layer command-line overrides over a base config. The result is not validated.
+ */
+export function applyConfigOverrides(
+  config: WorkspaceConfig,
+  overrides: ConfigOverrides
+): WorkspaceConfig {
+  const updated = JSON.parse(JSON.stringify(config)) as WorkspaceConfig;
+
+  if (overrides.backend === 'none') {
+    delete updated.backend;
+  } else if (overrides.backend) {
+    updated.backend = {
+      type: overrides.backend,
+      features: updated.backend?.features ?? DEFAULT_BACKEND_FEATURES,
+      ...(overrides.backend === 'firebase' && {
+        firebasePattern: updated.backend?.firebasePattern ?? DEFAULT_FIREBASE_PATTERN,
+      }),
+    };
+  }
+
+  if (overrides.backendFeatures || overrides.firebasePattern) {
+    if (!updated.backend) {
+      // Options for a backend that is not there; let validation report the mismatch
+      updated.backend = { type: 'none', features: [] };
+    }
+    if (overrides.backendFeatures) {
+      updated.backend.features = overrides.backendFeatures;
+    }
+    if (overrides.firebasePattern) {
+      updated.backend.firebasePattern = overrides.firebasePattern;
+    }
+  }
+
+  // Web options map one to one; only those given on the command line are applied
+  const webOverrides: Partial<WorkspaceConfig['web']> = {
+    stateManagement: overrides.stateManagement,
+    testing: overrides.testing,
+    ui: overrides.ui,
+    styling: overrides.styling,
+    linting: overrides.linting,
+    formatting: overrides.formatting,
+    gitHooks: overrides.gitHooks,
+  };
+  Object.assign(
+    updated.web,
+    Object.fromEntries(Object.entries(webOverrides).filter(([, value]) => value !== undefined))
+  );
+
+  if (overrides.packageManager) {
+    updated.packageManager = overrides.packageManager;
+  }
+
+  if (overrides.pwa === true) {
+    updated.workspace = { type: 'pwa', platforms: ['web', 'pwa'] };
+    updated.pwa = updated.pwa ?? { offline: true, installable: true, notifications: false };
+  } else if (overrides.pwa === false) {
+    updated.workspace = { type: 'single', platforms: ['web'] };
+    delete updated.pwa;
+  }
+
+  return updated;
+}
+
 /**
  * Convert WorkspaceConfig to TemplateContext for Handlebars
  */
 export function configToTemplateContext(config: WorkspaceConfig): TemplateContext {
   const backendFeatures = (config.backend?.features || []) as BackendFeature[];
-  const firebasePattern = config.backend?.firebasePattern || 'client-side';
+  const firebasePattern = config.backend?.firebasePattern || DEFAULT_FIREBASE_PATTERN;
   const isPwa = config.workspace.type === 'pwa' || config.workspace.platforms.includes('pwa');
 
   return {
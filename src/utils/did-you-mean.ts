@@ -0,0 +1,38 @@
+/**
+ * "Did you mean" suggestions for mistyped values
+ */
+
+/**
+ * Edit distance between two strings (insertions, deletions and substitutions)
+ */
+export function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j]! + 1, current[j - 1]! + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * The candidate closest to value, if it is close enough to be a likely typo
+ */
+export function findClosestMatch(value: string, candidates: readonly string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(value.length / 3));
+  let closest: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = levenshtein(value.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance && (!closest || distance < closest.distance)) {
+      closest = { candidate, distance };
+    }
+  }
+
+  return closest?.candidate;
+}
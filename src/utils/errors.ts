@@ -1,6 +1,7 @@
-import { logger } from './logger.js';
-import { removeDir } from './file-system.js';
+import { logger, formatBytes, isLevelEnabled } from './logger.js';
 import chalk from 'chalk';
+import { formatDiagnostic } from '../validators/config-schema.js';
+import type { ConfigDiagnostic } from '../types/config.js';
 
 /**
  * Error codes for programmatic handling
@@ -12,11 +13,18 @@ export enum ErrorCode {
   DIRECTORY_EXISTS = 'DIRECTORY_EXISTS',
   DIRECTORY_NOT_FOUND = 'DIRECTORY_NOT_FOUND',
   FILE_OPERATION_FAILED = 'FILE_OPERATION_FAILED',
+  PROJECT_NOT_FOUND = 'PROJECT_NOT_FOUND',
 
   // Configuration errors
   INVALID_CONFIG = 'INVALID_CONFIG',
   INVALID_PROJECT_NAME = 'INVALID_PROJECT_NAME',
   CONFIG_FILE_NOT_FOUND = 'CONFIG_FILE_NOT_FOUND',
+  CONFIG_FILE_EXISTS = 'CONFIG_FILE_EXISTS',
+  CONFIG_PARSE_FAILED = 'CONFIG_PARSE_FAILED',
+  CONFIG_MIGRATION_FAILED = 'CONFIG_MIGRATION_FAILED',
+  CONFIG_VARIABLE_UNDEFINED = 'CONFIG_VARIABLE_UNDEFINED',
+  PRESET_NOT_FOUND = 'PRESET_NOT_FOUND',
+  UNSUPPORTED_FEATURE = 'UNSUPPORTED_FEATURE',
 
   // Template errors
   TEMPLATE_NOT_FOUND = 'TEMPLATE_NOT_FOUND',
@@ -24,7 +32,10 @@ export enum ErrorCode {
 
   // Generation errors
   GENERATION_FAILED = 'GENERATION_FAILED',
+  UPGRADE_CONFLICTS = 'UPGRADE_CONFLICTS',
   DEPENDENCY_INSTALLATION_FAILED = 'DEPENDENCY_INSTALLATION_FAILED',
+  GIT_SETUP_FAILED = 'GIT_SETUP_FAILED',
+  HOOK_FAILED = 'HOOK_FAILED',
 
   // Unknown
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
@@ -38,7 +49,8 @@ export class GeneratorError extends Error {
     public code: ErrorCode,
     message: string,
     public suggestions: string[] = [],
-    public cause?: Error
+    public cause?: Error,
+    public diagnostics: ConfigDiagnostic[] = []
   ) {
     super(message);
     this.name = 'GeneratorError';
@@ -50,6 +62,10 @@ export class GeneratorError extends Error {
  * Format and display error with helpful information
  */
 export function displayError(error: unknown, debug = false): void {
+  if (!isLevelEnabled('quiet')) {
+    return;
+  }
+
   logger.newLine();
 
   if (error instanceof GeneratorError) {
@@ -57,6 +73,14 @@ export function displayError(error: unknown, debug = false): void {
     logger.error(`Error: ${error.message}`);
     logger.newLine();
 
+    if (error.diagnostics.length > 0) {
+      error.diagnostics.forEach((diagnostic) => {
+        const icon = diagnostic.severity === 'error' ? chalk.red('  ✗') : chalk.yellow('  ⚠');
+        console.log(icon, formatDiagnostic(diagnostic));
+      });
+      logger.newLine();
+    }
+
     if (error.suggestions.length > 0) {
       console.log(chalk.cyan('💡 Suggestions:'));
       error.suggestions.forEach((suggestion) => {
@@ -119,10 +143,24 @@ export const errors = {
   directoryExists: (path: string) =>
     new GeneratorError(ErrorCode.DIRECTORY_EXISTS, `Directory "${path}" already exists`, [
       'Choose a different project name',
+      'Generate into it anyway with --force or --conflict=<skip|overwrite|prompt|rename>',
       `Remove the existing directory: rm -rf ${path}`,
       'Use a different location',
     ]),
 
+  projectNotFound: (path: string) =>
+    new GeneratorError(ErrorCode.PROJECT_NOT_FOUND, `No generated project found at: ${path}`, [
+      'Run the command from the root of a generated project',
+      'Use --dir to point at the project directory',
+      'Check that the directory contains a package.json',
+    ]),
+
+  manifestNotFound: (path: string) =>
+    new GeneratorError(ErrorCode.PROJECT_NOT_FOUND, `No generation manifest found in: ${path}`, [
+      'Only projects generated by this version of the CLI or later can be upgraded',
+      'Check that .awg/manifest.json exists and is committed',
+    ]),
+
   invalidProjectName: (name: string, reason: string) =>
     new GeneratorError(ErrorCode.INVALID_PROJECT_NAME, `Invalid project name: "${name}"`, [
       reason,
@@ -142,6 +180,32 @@ export const errors = {
       cause
     ),
 
+  configValidationFailed: (source: string, diagnostics: ConfigDiagnostic[]) =>
+    new GeneratorError(
+      ErrorCode.INVALID_CONFIG,
+      `Invalid configuration in ${source}`,
+      [
+        'Fix the problems listed above',
+        'Run "app-workspace-generator config validate <path> --json" for machine-readable output',
+        'Run "app-workspace-generator schema" to see every valid option',
+      ],
+      undefined,
+      diagnostics
+    ),
+
+  configVariablesUndefined: (source: string, diagnostics: ConfigDiagnostic[]) =>
+    new GeneratorError(
+      ErrorCode.CONFIG_VARIABLE_UNDEFINED,
+      `Undefined environment variables in ${source}`,
+      [
+        'Set the variables listed above before running the command',
+        'Give a fallback with ${VAR:-default}',
+        'Write $${VAR} for a literal ${VAR}',
+      ],
+      undefined,
+      diagnostics
+    ),
+
   configFileNotFound: (path: string) =>
     new GeneratorError(ErrorCode.CONFIG_FILE_NOT_FOUND, `Configuration file not found: ${path}`, [
       'Check that the file path is correct',
@@ -149,6 +213,50 @@ export const errors = {
       'Try using the interactive mode instead',
     ]),
 
+  configParseFailed: (path: string, reason: string, line?: number, column?: number) =>
+    new GeneratorError(
+      ErrorCode.CONFIG_PARSE_FAILED,
+      `Failed to parse config file ${path}${line ? `:${line}:${column ?? 1}` : ''}: ${reason}`,
+      [
+        'Check the syntax around the reported line and column',
+        'Supported formats: .json, .jsonc, .json5, .yaml, .yml, .ts, .mts, .mjs, .js',
+      ]
+    ),
+
+  configMigrationFailed: (path: string, reason: string) =>
+    new GeneratorError(
+      ErrorCode.CONFIG_MIGRATION_FAILED,
+      `Cannot migrate config file ${path}: ${reason}`,
+      [
+        'Upgrade app-workspace-generator if the file was written by a newer version',
+        'Remove or correct the "version" field',
+      ]
+    ),
+
+  configFileExists: (path: string) =>
+    new GeneratorError(ErrorCode.CONFIG_FILE_EXISTS, `Configuration file already exists: ${path}`, [
+      'Use --force to overwrite it',
+      'Use --output to write to a different path',
+    ]),
+
+  presetNotFound: (name: string, available: string[]) =>
+    new GeneratorError(ErrorCode.PRESET_NOT_FOUND, `Preset not found: "${name}"`, [
+      `Available presets: ${available.join(', ')}`,
+      'Run "app-workspace-generator presets list" to see all presets',
+    ]),
+
+  unsupportedFeature: (feature: string, supported: string[]) =>
+    new GeneratorError(ErrorCode.UNSUPPORTED_FEATURE, `Unsupported feature: "${feature}"`, [
+      `Supported features: ${supported.join(', ')}`,
+    ]),
+
+  featureAlreadyEnabled: (feature: string) =>
+    new GeneratorError(
+      ErrorCode.UNSUPPORTED_FEATURE,
+      `Feature "${feature}" is already enabled in this project`,
+      ['Nothing to add', 'Choose a different feature to add']
+    ),
+
   templateNotFound: (templateName: string) =>
     new GeneratorError(ErrorCode.TEMPLATE_NOT_FOUND, `Template not found: ${templateName}`, [
       'Check that the template name is correct',
@@ -179,75 +287,55 @@ export const errors = {
       cause
     ),
 
-  dependencyInstallationFailed: (cause?: Error) =>
+  upgradeConflicts: (files: string[]) =>
+    new GeneratorError(
+      ErrorCode.UPGRADE_CONFLICTS,
+      `Upgrade finished with conflicts in ${files.length} file(s)`,
+      [
+        ...files.map((file) => `Resolve the conflict markers in ${file}`),
+        'Search for "<<<<<<<" to find every conflicting hunk',
+      ]
+    ),
+
+  dependencyInstallationFailed: (cause?: Error, command?: string) =>
     new GeneratorError(
       ErrorCode.DEPENDENCY_INSTALLATION_FAILED,
-      'Failed to install dependencies',
+      `Failed to install dependencies${cause ? `: ${cause.message.split('\n')[0]}` : ''}`,
       [
         'Check your internet connection',
-        'Ensure npm/yarn is properly installed',
-        'Try running the installation manually after generation',
+        'Ensure the package manager is installed and on your PATH',
+        command
+          ? `The project was generated; run "${command}" in it to retry`
+          : 'Try running the installation manually after generation',
+        'Run with --verbose to see the package manager output',
         'Use --skip-install to skip automatic installation',
       ],
       cause
     ),
-};
 
-/**
- * Rollback mechanism - cleanup failed generation
- */
-export async function rollbackGeneration(targetDir: string): Promise<void> {
-  try {
-    logger.warning('Error occurred during generation');
-    logger.step('Rolling back changes...');
-
-    await removeDir(targetDir);
-
-    logger.success(`Cleaned up partial project at ${targetDir}`);
-  } catch (rollbackError) {
-    logger.error(
-      `Failed to rollback: ${rollbackError instanceof Error ? rollbackError.message : 'Unknown error'}`
-    );
-    logger.tip(`You may need to manually remove: ${targetDir}`);
-  }
-}
-
-/**
- * Wrap async operation with error handling and rollback
- */
-export async function withErrorHandling<T>(
-  operation: () => Promise<T>,
-  targetDir: string,
-  debug = false
-): Promise<T> {
-  try {
-    return await operation();
-  } catch (error) {
-    displayError(error, debug);
-
-    // Attempt rollback
-    await rollbackGeneration(targetDir);
-
-    // Re-throw to be caught by the command handler
-    throw error;
-  }
-}
-
-/**
- * Format bytes to human-readable format
- */
-function formatBytes(bytes: number): string {
-  const units = ['bytes', 'KB', 'MB', 'GB'];
-  let size = bytes;
-  let unitIndex = 0;
-
-  while (size >= 1024 && unitIndex < units.length - 1) {
-    size /= 1024;
-    unitIndex++;
-  }
+  gitSetupFailed: (cause: Error) =>
+    new GeneratorError(
+      ErrorCode.GIT_SETUP_FAILED,
+      `Failed to set up the git repository: ${cause.message.split('\n')[0]}`,
+      [
+        'The project was generated; run "git init" in it to retry',
+        'Use --no-git to skip repository setup',
+        'Run with --debug to see the git output',
+      ],
+      cause
+    ),
 
-  return `${size.toFixed(1)} ${units[unitIndex]}`;
-}
+  hookFailed: (phase: string, hook: string, reason: string, output = '') =>
+    new GeneratorError(
+      ErrorCode.HOOK_FAILED,
+      `${phase} hook "${hook}" ${reason}${output ? `\n${output.replace(/^/gm, '  ')}` : ''}`,
+      [
+        'Fix the hook or remove it from "hooks" in your config',
+        'Run with --verbose to see the output of every hook as it runs',
+        ...(phase === 'preGenerate' ? [] : ['The project files were kept']),
+      ]
+    ),
+};
 
 /**
  * Log error to file for debugging
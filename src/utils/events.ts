@@ -0,0 +1,85 @@
+import { GeneratorError, ErrorCode } from './errors.js';
+import type { Logger } from './logger.js';
+import type { FileWriteAction } from '../generators/base/conflicts.js';
+import type { ConfigDiagnostic } from '../types/config.js';
+
+/**
+ * Machine-readable output (--output json) - one JSON event per line on stdout,
+ * in place of the banner, spinners and summary meant for people
+ */
+
+export type GenerationEvent = { project?: string } & (
+  | { type: 'step-started'; message: string }
+  | { type: 'step-completed'; message: string }
+  | { type: 'info'; message: string }
+  | { type: 'file-written'; path: string; action: FileWriteAction; source: string | null }
+  | { type: 'warning'; message: string; diagnostic?: ConfigDiagnostic }
+  | {
+      type: 'error';
+      code: ErrorCode;
+      message: string;
+      suggestions: string[];
+      diagnostics: ConfigDiagnostic[];
+    }
+  | { type: 'completed'; summary: GenerationSummary }
+);
+
+export interface GenerationSummary {
+  targetDir: string;
+  files: number; // Files written, or planned in a dry run
+  conflicts: number; // Existing files that were skipped, overwritten or renamed
+  dryRun: boolean;
+  durationMs: number;
+}
+
+export type OutputFormat = 'text' | 'json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json'];
+
+/**
+ * Write one event as a line of JSON
+ */
+export function emitEvent(event: GenerationEvent): void {
+  process.stdout.write(`${JSON.stringify(event)}\n`);
+}
+
+/**
+ * A logger that emits every message as an event, tagged with the project it
+ * belongs to when given
+ */
+export function createEventLogger(project?: string): Logger {
+  const tag = project === undefined ? {} : { project };
+
+  return {
+    info: (message) => emitEvent({ ...tag, type: 'info', message }),
+    success: (message) => emitEvent({ ...tag, type: 'step-completed', message }),
+    warning: (message) => emitEvent({ ...tag, type: 'warning', message }),
+    // Failures are reported once, with their code, by errorEvent
+    error: (message) => emitEvent({ ...tag, type: 'info', message }),
+    step: (message) => emitEvent({ ...tag, type: 'step-started', message }),
+    file: (path, action, source) =>
+      emitEvent({ ...tag, type: 'file-written', path, action, source }),
+  };
+}
+
+/**
+ * The error event for anything thrown, with its code, suggestions and diagnostics
+ */
+export function errorEvent(error: unknown, project?: string): GenerationEvent {
+  const generatorError =
+    error instanceof GeneratorError
+      ? error
+      : new GeneratorError(
+          ErrorCode.UNKNOWN_ERROR,
+          error instanceof Error ? error.message : 'An unexpected error occurred'
+        );
+
+  return {
+    ...(project === undefined ? {} : { project }),
+    type: 'error',
+    code: generatorError.code,
+    message: generatorError.message,
+    suggestions: generatorError.suggestions,
+    diagnostics: generatorError.diagnostics,
+  };
+}
@@ -1,4 +1,5 @@
 import fs from 'fs-extra';
+import os from 'os';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -22,6 +23,36 @@ export function getTemplatesDir(): string {
   return path.join(getCliRootDir(), 'templates');
 }
 
+/**
+ * Get the directory of built-in presets
+ */
+export function getPresetsDir(): string {
+  return path.join(getCliRootDir(), 'presets');
+}
+
+/**
+ * Get the path of the published config JSON Schema
+ */
+export function getConfigSchemaPath(): string {
+  return path.join(getCliRootDir(), 'schema', 'awg.config.schema.json');
+}
+
+/**
+ * Get the user-level config directory ($XDG_CONFIG_HOME/app-workspace-generator)
+ */
+export function getUserConfigDir(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'app-workspace-generator');
+}
+
+/**
+ * Get the version of the CLI tool from its package.json
+ */
+export async function getGeneratorVersion(): Promise<string> {
+  const packageJson = await fs.readJson(path.join(getCliRootDir(), 'package.json'));
+  return packageJson.version;
+}
+
 /**
  * Check if a directory exists
  */
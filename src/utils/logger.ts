@@ -1,53 +1,186 @@
 import chalk from 'chalk';
+import ora, { type Ora } from 'ora';
+import type { FileWriteAction } from '../generators/base/conflicts.js';
 
 /**
  * Colorized logging utilities for CLI output
  */
 
+/**
+ * How much the console logger prints: silent prints nothing, quiet only
+ * warnings and errors, verbose adds every file written, debug adds internals
+ */
+export type LogLevel = 'silent' | 'quiet' | 'normal' | 'verbose' | 'debug';
+
+export const LOG_LEVELS: LogLevel[] = ['silent', 'quiet', 'normal', 'verbose', 'debug'];
+
+export interface LoggerSettings {
+  level: LogLevel;
+  color: boolean;
+  spinners: boolean;
+}
+
+// Colors and spinners only make sense on an interactive terminal. FORCE_COLOR
+// still colors captured output; NO_COLOR always wins.
+const supportedColorLevel = chalk.level;
+const fancyTerminal = !!process.stdout.isTTY && !process.env.NO_COLOR && !isCI();
+const forceColor = !process.env.NO_COLOR && supportedColorLevel > 0 && !!process.env.FORCE_COLOR;
+
+const settings: LoggerSettings = {
+  level: 'normal',
+  color: fancyTerminal || forceColor,
+  spinners: fancyTerminal,
+};
+
+applyColor();
+
+/**
+ * An entry in a file tree, with a path relative to the tree root
+ */
+export interface FileTreeEntry {
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  source?: string | null;
+}
+
+/**
+ * Where generation reports progress. The console `logger` below is one; the
+ * programmatic API takes any object with these methods.
+ */
+export interface Logger {
+  info(message: string): void;
+  success(message: string): void;
+  warning(message: string): void;
+  error(message: string): void;
+  step(message: string): void;
+  file?(path: string, action: FileWriteAction, source: string | null): void; // Every file written
+  debug?(message: string): void;
+}
+
+/**
+ * A logger that discards everything
+ */
+export const silentLogger: Logger = {
+  info: () => undefined,
+  success: () => undefined,
+  warning: () => undefined,
+  error: () => undefined,
+  step: () => undefined,
+};
+
+/**
+ * The console logger with every line labelled with prefix, for the output of
+ * projects generated side by side
+ */
+export function createPrefixedLogger(prefix: string): Logger {
+  const label = (message: string) => `${chalk.dim(`[${prefix}]`)} ${message}`;
+
+  return {
+    info: (message) => logger.info(label(message)),
+    success: (message) => logger.success(label(message)),
+    warning: (message) => logger.warning(label(message)),
+    error: (message) => logger.error(label(message)),
+    step: (message) => logger.step(label(message)),
+    file: (path, action, source) => logger.file(label(path), action, source),
+    debug: (message) => logger.debug(label(message)),
+  };
+}
+
+/**
+ * Change the level, colors or spinners of the console logger
+ */
+export function configureLogger(changes: Partial<LoggerSettings>): void {
+  Object.assign(settings, changes);
+  applyColor();
+}
+
+/**
+ * The log level for a command's --silent, --quiet, --verbose and --debug flags
+ */
+export function getLogLevel(flags: {
+  silent?: boolean;
+  quiet?: boolean;
+  verbose?: boolean;
+  debug?: boolean;
+}): LogLevel {
+  if (flags.silent) {
+    return 'silent';
+  }
+  if (flags.quiet) {
+    return 'quiet';
+  }
+  if (flags.debug) {
+    return 'debug';
+  }
+  return flags.verbose ? 'verbose' : 'normal';
+}
+
+/**
+ * Whether the console logger prints messages of the given level
+ */
+export function isLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(settings.level) >= LOG_LEVELS.indexOf(level);
+}
+
+/**
+ * Start a terminal spinner, or return undefined when spinners are off or would
+ * interleave with per-file output. Callers then report through `logger`.
+ */
+export function startSpinner(text: string): Ora | undefined {
+  if (!settings.spinners || settings.level !== 'normal') {
+    return undefined;
+  }
+  return ora(text).start();
+}
+
+/**
+ * The console logger. Every method prints only at its level or above.
+ */
 export const logger = {
-  info: (message: string) => {
+  info: at('normal', (message: string) => {
     console.log(chalk.blue('ℹ'), message);
-  },
+  }),
 
-  success: (message: string) => {
+  success: at('normal', (message: string) => {
     console.log(chalk.green('✓'), message);
-  },
+  }),
 
-  warning: (message: string) => {
+  warning: at('quiet', (message: string) => {
     console.log(chalk.yellow('⚠'), message);
-  },
+  }),
 
-  error: (message: string) => {
+  error: at('quiet', (message: string) => {
     console.log(chalk.red('✗'), message);
-  },
+  }),
 
-  step: (message: string) => {
+  step: at('normal', (message: string) => {
     console.log(chalk.cyan('→'), message);
-  },
+  }),
 
-  header: (message: string) => {
+  header: at('normal', (message: string) => {
     console.log();
     console.log(chalk.bold.magenta(message));
     console.log();
-  },
+  }),
 
-  section: (title: string) => {
+  section: at('normal', (title: string) => {
     console.log();
     console.log(chalk.bold.cyan(`📦 ${title}...`));
-  },
+  }),
 
-  tip: (message: string) => {
+  tip: at('normal', (message: string) => {
     console.log(chalk.gray('💡'), chalk.gray(message));
-  },
+  }),
 
-  newLine: () => {
+  newLine: at('normal', () => {
     console.log();
-  },
+  }),
 
   /**
    * Print ASCII banner
    */
-  banner: () => {
+  banner: at('normal', () => {
     console.log();
     console.log(chalk.cyan.bold('╔═══════════════════════════════════════════════╗'));
     console.log(chalk.cyan.bold('║                                               ║'));
@@ -70,28 +203,28 @@ export const logger = {
     console.log(chalk.cyan.bold('║                                               ║'));
     console.log(chalk.cyan.bold('╚═══════════════════════════════════════════════╝'));
     console.log();
-  },
+  }),
 
   /**
    * Print step indicator
    */
-  stepIndicator: (current: number, total: number, message: string) => {
+  stepIndicator: at('normal', (current: number, total: number, message: string) => {
     const progress = `[${current}/${total}]`;
     console.log();
     console.log(chalk.cyan(progress), chalk.bold(message));
-  },
+  }),
 
   /**
    * Print file count with size
    */
-  fileCount: (count: number, description: string) => {
+  fileCount: at('normal', (count: number, description: string) => {
     console.log(chalk.gray(`  → ${count} ${description}`));
-  },
+  }),
 
   /**
    * Print final summary box
    */
-  summaryBox: (lines: string[]) => {
+  summaryBox: at('normal', (lines: string[]) => {
     const maxLength = Math.max(...lines.map((l) => l.length));
     const width = Math.min(maxLength + 4, 60);
 
@@ -105,14 +238,131 @@ export const logger = {
 
     console.log(chalk.green(`└${'─'.repeat(width - 2)}┘`));
     console.log();
-  },
+  }),
+
+  /**
+   * Print a directory tree of files with their source and size
+   */
+  fileTree: at('normal', (root: string, entries: FileTreeEntry[]) => {
+    // Make sure every intermediate directory has an entry of its own
+    const directories = new Set(
+      entries.filter((entry) => entry.type === 'directory').map((entry) => entry.path)
+    );
+    const missing: FileTreeEntry[] = [];
+    entries.forEach((entry) => {
+      const parts = entry.path.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        const dir = parts.slice(0, i).join('/');
+        if (!directories.has(dir)) {
+          directories.add(dir);
+          missing.push({ path: dir, type: 'directory', size: 0 });
+        }
+      }
+    });
+
+    console.log(chalk.bold(`${root}/`));
+    printTreeLevel(
+      [...entries, ...missing].sort((a, b) => a.path.localeCompare(b.path)),
+      '',
+      ''
+    );
+  }),
+
+  /**
+   * Print every file written, with the template it came from (verbose)
+   */
+  file: at('verbose', (path: string, action: FileWriteAction, source: string | null) => {
+    const from = source ? chalk.gray(` ← ${source}`) : '';
+    console.log(chalk.gray(`  ${action === 'created' ? '+' : '~'} ${path}`) + from);
+  }),
+
+  /**
+   * Print diagnostic detail (debug)
+   */
+  debug: at('debug', (message: string) => {
+    console.log(chalk.magenta('⋯'), chalk.dim(message));
+  }),
 
   /**
    * Print success message with celebration
    */
-  celebrate: (message: string) => {
+  celebrate: at('normal', (message: string) => {
     console.log();
     console.log(chalk.green.bold(`🎉 ${message} 🎉`));
     console.log();
-  },
+  }),
 };
+
+/**
+ * Wrap a print function so it only runs when level is enabled
+ */
+function at<Args extends unknown[]>(
+  level: LogLevel,
+  print: (...args: Args) => void
+): (...args: Args) => void {
+  return (...args) => {
+    if (isLevelEnabled(level)) {
+      print(...args);
+    }
+  };
+}
+
+/**
+ * Whether we are running in CI, where output is captured rather than watched
+ */
+function isCI(): boolean {
+  const ci = process.env.CI;
+  return !!ci && ci !== 'false' && ci !== '0';
+}
+
+/**
+ * Turn chalk off when colors are disabled, back on when they are enabled
+ */
+function applyColor(): void {
+  chalk.level = settings.color ? supportedColorLevel : 0;
+}
+
+/**
+ * Print the direct children of `dir` and recurse into subdirectories
+ */
+function printTreeLevel(entries: FileTreeEntry[], dir: string, indent: string): void {
+  const prefix = dir ? `${dir}/` : '';
+  const children = entries.filter(
+    (entry) => entry.path.startsWith(prefix) && !entry.path.slice(prefix.length).includes('/')
+  );
+
+  children.forEach((entry, index) => {
+    const last = index === children.length - 1;
+    const name = entry.path.slice(prefix.length);
+
+    if (entry.type === 'directory') {
+      console.log(`${indent}${last ? '└── ' : '├── '}${chalk.bold(`${name}/`)}`);
+      printTreeLevel(entries, entry.path, `${indent}${last ? '    ' : '│   '}`);
+      return;
+    }
+
+    const source = entry.source ? chalk.gray(` ← ${entry.source}`) : '';
+    const size = chalk.dim(` (${formatBytes(entry.size)})`);
+    console.log(`${indent}${last ? '└── ' : '├── '}${name}${source}${size}`);
+  });
+}
+
+/**
+ * Format bytes to human-readable format
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['bytes', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unitIndex = 0;
+
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+
+  if (unitIndex === 0) {
+    return `${bytes} bytes`;
+  }
+
+  return `${size.toFixed(1)} ${units[unitIndex]}`;
+}
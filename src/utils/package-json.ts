@@ -0,0 +1,61 @@
+/**
+ * package.json utilities for existing projects
+ */
+
+export interface PackageJson {
+  name?: string;
+  description?: string;
+  author?: string | { name?: string };
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Sections merged from a freshly rendered package.json into an existing one
+ */
+const MERGED_SECTIONS = ['scripts', 'dependencies', 'devDependencies'] as const;
+
+export interface PackageJsonMergeResult {
+  merged: PackageJson;
+  added: { section: string; name: string; value: string }[];
+}
+
+/**
+ * Merge scripts and dependencies from a generated package.json into an existing one.
+ * Entries already present in the existing file are kept as-is, so user version pins win.
+ */
+export function mergePackageJson(
+  existing: PackageJson,
+  generated: PackageJson
+): PackageJsonMergeResult {
+  const merged: PackageJson = { ...existing };
+  const added: PackageJsonMergeResult['added'] = [];
+
+  for (const section of MERGED_SECTIONS) {
+    const incoming = generated[section];
+    if (!incoming) {
+      continue;
+    }
+
+    const current = { ...(existing[section] || {}) };
+    for (const [name, value] of Object.entries(incoming)) {
+      if (!(name in current)) {
+        current[name] = value;
+        added.push({ section, name, value });
+      }
+    }
+
+    merged[section] = current;
+  }
+
+  return { merged, added };
+}
+
+/**
+ * Serialize package.json the way npm writes it
+ */
+export function stringifyPackageJson(pkg: PackageJson): string {
+  return `${JSON.stringify(pkg, null, 2)}\n`;
+}
@@ -0,0 +1,87 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { loadConfigFromFile } from '../prompts/config-loader.js';
+import { errors } from './errors.js';
+import { getPresetsDir, getUserConfigDir } from './file-system.js';
+import type { WorkspaceConfig } from '../types/config.js';
+
+/**
+ * Named presets - complete configs bundled with the CLI or kept in the user's config directory
+ */
+
+export interface Preset {
+  name: string;
+  description: string;
+  source: 'built-in' | 'user';
+  path: string;
+}
+
+/**
+ * Directory for user-level presets
+ */
+export function getUserPresetsDir(): string {
+  return path.join(getUserConfigDir(), 'presets');
+}
+
+/**
+ * All available presets by name; user presets replace built-in ones with the same name
+ */
+export async function listPresets(): Promise<Preset[]> {
+  const presets = new Map<string, Preset>();
+
+  for (const preset of [
+    ...(await readPresetsDir(getPresetsDir(), 'built-in')),
+    ...(await readPresetsDir(getUserPresetsDir(), 'user')),
+  ]) {
+    presets.set(preset.name, preset);
+  }
+
+  return [...presets.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Find a preset by name
+ */
+export async function findPreset(name: string): Promise<Preset | undefined> {
+  return (await listPresets()).find((preset) => preset.name === name);
+}
+
+/**
+ * Load a preset's config, named after the project when a name is given
+ */
+export async function loadPreset(name: string, projectName?: string): Promise<WorkspaceConfig> {
+  const preset = await findPreset(name);
+  if (!preset) {
+    throw errors.presetNotFound(
+      name,
+      (await listPresets()).map((p) => p.name)
+    );
+  }
+
+  const config = await loadConfigFromFile(preset.path);
+  return projectName ? { ...config, name: projectName } : config;
+}
+
+/**
+ * Presets stored as `<name>.json` files in a directory
+ */
+async function readPresetsDir(dir: string, source: Preset['source']): Promise<Preset[]> {
+  if (!(await fs.pathExists(dir))) {
+    return [];
+  }
+
+  const presets: Preset[] = [];
+
+  for (const file of (await fs.readdir(dir)).filter((f) => f.endsWith('.json'))) {
+    const presetPath = path.join(dir, file);
+    const config = await fs.readJson(presetPath).catch(() => ({}));
+    presets.push({
+      name: path.basename(file, '.json'),
+      description: typeof config.description === 'string' ? config.description : '',
+      source,
+      path: presetPath,
+    });
+  }
+
+  return presets;
+}
@@ -0,0 +1,65 @@
+import { spawn } from 'child_process';
+
+/**
+ * Running external programs (package managers, git) in a generated project
+ */
+
+export interface RunOptions {
+  cwd: string;
+  env?: Record<string, string | undefined>; // Added to the current environment
+  stream?: boolean; // Echo output to the terminal while it is captured
+  shell?: boolean; // Run command as a shell command line, ignoring args
+}
+
+export interface RunResult {
+  exitCode: number;
+  output: string; // stdout and stderr, interleaved as they arrived
+}
+
+/**
+ * Run a program to completion and capture its output. Resolves with the exit
+ * code, whatever it is; rejects only when the program cannot be started.
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: RunOptions
+): Promise<RunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, options.shell ? [] : args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      shell: options.shell,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const chunks: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      if (options.stream) {
+        process.stdout.write(chunk);
+      }
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      if (options.stream) {
+        process.stderr.write(chunk);
+      }
+    });
+
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      resolve({
+        exitCode: code ?? (signal ? 128 : 1),
+        output: Buffer.concat(chunks).toString('utf-8'),
+      });
+    });
+  });
+}
+
+/**
+ * The last lines of a program's output, for error messages
+ */
+export function tailOutput(output: string, lines = 20): string {
+  return output.trimEnd().split('\n').slice(-lines).join('\n');
+}
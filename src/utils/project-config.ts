@@ -0,0 +1,120 @@
+import path from 'path';
+import fs from 'fs-extra';
+import type { PackageManagerType, WorkspaceConfig } from '../types/config.js';
+import { createDefaultConfig } from '../prompts/config-loader.js';
+import { errors } from './errors.js';
+import { fileExists } from './file-system.js';
+import type { PackageJson } from './package-json.js';
+import { readManifest } from '../generators/base/manifest.js';
+
+/**
+ * Utilities for reading the configuration of an already-generated project
+ */
+
+/**
+ * Read a project's package.json
+ */
+export async function readProjectPackageJson(projectDir: string): Promise<PackageJson> {
+  const packageJsonPath = path.join(projectDir, 'package.json');
+
+  if (!(await fileExists(packageJsonPath))) {
+    throw errors.projectNotFound(projectDir);
+  }
+
+  return (await fs.readJson(packageJsonPath)) as PackageJson;
+}
+
+/**
+ * Load the WorkspaceConfig of a generated project.
+ * Uses the generation manifest when present, otherwise infers it from the project files.
+ */
+export async function loadProjectConfig(projectDir: string): Promise<WorkspaceConfig> {
+  // Fails with PROJECT_NOT_FOUND outside of a generated project
+  await readProjectPackageJson(projectDir);
+
+  const manifest = await readManifest(projectDir);
+  if (manifest) {
+    return manifest.config;
+  }
+
+  return await inferProjectConfig(projectDir);
+}
+
+/**
+ * Reconstruct the WorkspaceConfig of a generated project from what is on disk.
+ * Starts from the quick-start defaults and adjusts every option that leaves a trace
+ * in package.json or in the generated file layout.
+ */
+export async function inferProjectConfig(projectDir: string): Promise<WorkspaceConfig> {
+  const pkg = await readProjectPackageJson(projectDir);
+  const deps = { ...(pkg.dependencies || {}), ...(pkg.devDependencies || {}) };
+  const has = (name: string) => name in deps;
+  const exists = (relativePath: string) => fileExists(path.join(projectDir, relativePath));
+
+  const config = createDefaultConfig(pkg.name || path.basename(projectDir));
+
+  if (pkg.description) {
+    config.description = pkg.description;
+  }
+
+  const author = typeof pkg.author === 'string' ? pkg.author : pkg.author?.name;
+  if (author) {
+    config.author = author;
+  }
+
+  config.web.typescript = has('typescript') || (await exists('tsconfig.json'));
+  config.web.linting = has('eslint');
+  config.web.formatting = has('prettier');
+  config.web.gitHooks = has('husky');
+  config.web.testing = has('@playwright/test') ? 'playwright' : 'none';
+
+  if (has('zustand')) {
+    config.web.stateManagement = 'zustand';
+  } else if (await exists('src/contexts/AuthContext.tsx')) {
+    config.web.stateManagement = 'context';
+  } else {
+    config.web.stateManagement = 'none';
+  }
+
+  if (has('firebase')) {
+    config.backend = {
+      type: 'firebase',
+      features: ['auth', 'database'],
+      firebasePattern: has('firebase-admin') ? 'server-first' : 'client-side',
+    };
+  }
+
+  if (has('next-pwa')) {
+    config.workspace = { type: 'pwa', platforms: ['web', 'pwa'] };
+    config.pwa = {
+      offline: true,
+      installable: await exists('src/components/pwa/InstallPrompt.tsx'),
+      notifications: false,
+    };
+  }
+
+  config.documentation.aiInstructions = await exists('CLAUDE.md');
+  config.packageManager = await detectPackageManager(projectDir);
+
+  return config;
+}
+
+/**
+ * Detect the package manager from lockfiles, defaulting to npm
+ */
+async function detectPackageManager(projectDir: string): Promise<PackageManagerType> {
+  const lockfiles: [string, PackageManagerType][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+  ];
+
+  for (const [lockfile, manager] of lockfiles) {
+    if (await fileExists(path.join(projectDir, lockfile))) {
+      return manager;
+    }
+  }
+
+  return 'npm';
+}
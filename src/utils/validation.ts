@@ -51,7 +51,11 @@ export async function checkDirectoryDoesNotExist(targetPath: string): Promise<vo
 /**
  * Validate project name
  */
-export async function validateProjectNameForGeneration(name: string, cwd: string): Promise<void> {
+export async function validateProjectNameForGeneration(
+  name: string,
+  cwd: string,
+  allowExisting = false
+): Promise<void> {
   // Validate npm package name format
   const validation = validateNpmName(name);
 
@@ -61,8 +65,9 @@ export async function validateProjectNameForGeneration(name: string, cwd: string
   }
 
   // Check if directory already exists
-  const targetPath = path.join(cwd, name);
-  await checkDirectoryDoesNotExist(targetPath);
+  if (!allowExisting) {
+    await checkDirectoryDoesNotExist(path.join(cwd, name));
+  }
 }
 
 /**
@@ -71,7 +76,8 @@ export async function validateProjectNameForGeneration(name: string, cwd: string
 export async function validateGenerationEnvironment(
   _projectName: string,
   targetDir: string,
-  skipInstall = false
+  skipInstall = false,
+  allowExisting = false
 ): Promise<void> {
   const validationErrors: GeneratorError[] = [];
 
@@ -95,8 +101,10 @@ export async function validateGenerationEnvironment(
   }
 
   try {
-    // Check directory doesn't exist
-    await checkDirectoryDoesNotExist(targetDir);
+    // Check directory doesn't exist, unless generating into it on purpose
+    if (!allowExisting) {
+      await checkDirectoryDoesNotExist(targetDir);
+    }
   } catch (error) {
     if (error instanceof GeneratorError) {
       validationErrors.push(error);
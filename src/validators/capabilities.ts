@@ -0,0 +1,212 @@
+import type {
+  BackendType,
+  ConfigDiagnostic,
+  FrameworkType,
+  PlatformType,
+  StateManagementType,
+  StylingType,
+  TestingType,
+  UILibraryType,
+  WorkspaceConfig,
+  WorkspaceType,
+} from '../types/config.js';
+
+/**
+ * Capability matrix - which option values the generator implements, and which
+ * combinations of options contradict each other. Interactive mode disables the
+ * choices it marks as planned; validateConfig rejects them with the reason.
+ */
+
+/**
+ * An option value that is accepted by the schema but not generated yet
+ */
+interface Planned {
+  planned: string; // Why the value cannot be used yet
+}
+
+type Support<T extends string> = Record<T, true | Planned>;
+
+const COMING_SOON = 'not implemented yet; the generator would silently fall back to the default';
+
+export const OPTION_SUPPORT = {
+  'workspace.type': {
+    single: true,
+    pwa: true,
+    multi: { planned: 'multi-platform workspaces (web + iOS + Android) are planned for Phase 3' },
+  } satisfies Support<WorkspaceType>,
+  'workspace.platforms': {
+    web: true,
+    pwa: true,
+    ios: { planned: 'native iOS apps are planned for Phase 3' },
+    android: { planned: 'native Android apps are planned for Phase 3' },
+  } satisfies Support<PlatformType>,
+  'web.framework': {
+    next: true,
+    vite: { planned: `Vite is ${COMING_SOON} (Next.js)` },
+    remix: { planned: `Remix is ${COMING_SOON} (Next.js)` },
+  } satisfies Support<FrameworkType>,
+  'web.styling': {
+    tailwind: true,
+    'css-modules': { planned: `CSS Modules are ${COMING_SOON} (Tailwind CSS)` },
+    'styled-components': { planned: `Styled Components are ${COMING_SOON} (Tailwind CSS)` },
+  } satisfies Support<StylingType>,
+  'web.ui': {
+    none: true,
+    radix: { planned: `Radix UI is ${COMING_SOON} (no UI library)` },
+    shadcn: { planned: `shadcn/ui is ${COMING_SOON} (no UI library)` },
+    mui: { planned: `Material-UI is ${COMING_SOON} (no UI library)` },
+    chakra: { planned: `Chakra UI is ${COMING_SOON} (no UI library)` },
+  } satisfies Support<UILibraryType>,
+  'web.testing': {
+    playwright: true,
+    none: true,
+    cypress: { planned: `Cypress is ${COMING_SOON} (no tests)` },
+    vitest: { planned: `Vitest is ${COMING_SOON} (no tests)` },
+  } satisfies Support<TestingType>,
+  'web.stateManagement': {
+    context: true,
+    zustand: true,
+    none: true,
+  } satisfies Support<StateManagementType>,
+  'backend.type': {
+    firebase: true,
+    custom: true,
+    none: true,
+    supabase: { planned: `Supabase is ${COMING_SOON} (no backend)` },
+  } satisfies Support<BackendType>,
+};
+
+export type SupportedOption = keyof typeof OPTION_SUPPORT;
+
+/**
+ * A combination of options that cannot be generated together
+ */
+interface CompatibilityRule {
+  path: string;
+  severity: ConfigDiagnostic['severity'];
+  applies: (config: WorkspaceConfig) => boolean;
+  value: (config: WorkspaceConfig) => unknown;
+  message: string;
+}
+
+const isNative = (platform: PlatformType) => platform === 'ios' || platform === 'android';
+
+const COMPATIBILITY_RULES: CompatibilityRule[] = [
+  {
+    path: '/workspace/platforms',
+    severity: 'error',
+    applies: (config) =>
+      config.workspace.type === 'single' && config.workspace.platforms.length > 1,
+    value: (config) => config.workspace.platforms,
+    message: 'a single workspace can only have one platform',
+  },
+  {
+    path: '/workspace/platforms',
+    severity: 'error',
+    applies: (config) =>
+      config.workspace.type === 'single' && config.workspace.platforms.some(isNative),
+    value: (config) => config.workspace.platforms,
+    message: 'native platforms need a "multi" workspace, not a single web app',
+  },
+  {
+    path: '/workspace/platforms',
+    severity: 'error',
+    applies: ({ workspace: { platforms } }) =>
+      platforms.some(isNative) && !platforms.includes('web') && !platforms.includes('pwa'),
+    value: (config) => config.workspace.platforms,
+    message: 'native apps wrap the web app, so they require the web or pwa platform',
+  },
+  {
+    path: '/backend/firebasePattern',
+    severity: 'error',
+    applies: (config) =>
+      config.backend?.firebasePattern !== undefined && config.backend.type !== 'firebase',
+    value: (config) => config.backend?.firebasePattern,
+    message: 'a Firebase pattern needs the "firebase" backend',
+  },
+  {
+    path: '/backend/features',
+    severity: 'error',
+    applies: (config) => config.backend?.type === 'none' && config.backend.features.length > 0,
+    value: (config) => config.backend?.features,
+    message: 'backend features need a backend; set backend.type or remove the features',
+  },
+  {
+    path: '/pwa',
+    severity: 'warning',
+    applies: ({ pwa, workspace: { type, platforms } }) =>
+      pwa !== undefined && type !== 'pwa' && !platforms.includes('pwa'),
+    value: (config) => config.pwa,
+    message: 'ignored because the workspace is not a PWA',
+  },
+];
+
+/**
+ * Why a value cannot be generated yet, or undefined when it is implemented
+ */
+export function getPlannedReason(option: SupportedOption, value: string): string | undefined {
+  const support = (OPTION_SUPPORT[option] as Record<string, true | Planned>)[value];
+  return support === undefined || support === true ? undefined : support.planned;
+}
+
+/**
+ * The values of an option that the generator implements
+ */
+export function getSupportedValues(option: SupportedOption): string[] {
+  return Object.keys(OPTION_SUPPORT[option]).filter(
+    (value) => getPlannedReason(option, value) === undefined
+  );
+}
+
+/**
+ * Check a schema-valid config against the matrix: planned values first, then
+ * contradictory combinations
+ */
+export function checkCapabilities(config: WorkspaceConfig): ConfigDiagnostic[] {
+  const diagnostics: ConfigDiagnostic[] = [];
+
+  const values: { option: SupportedOption; path: string; value?: string }[] = [
+    { option: 'workspace.type', path: '/workspace/type', value: config.workspace.type },
+    ...config.workspace.platforms.map((platform, i) => ({
+      option: 'workspace.platforms' as const,
+      path: `/workspace/platforms/${i}`,
+      value: platform,
+    })),
+    { option: 'web.framework', path: '/web/framework', value: config.web.framework },
+    { option: 'web.styling', path: '/web/styling', value: config.web.styling },
+    { option: 'web.ui', path: '/web/ui', value: config.web.ui },
+    { option: 'web.testing', path: '/web/testing', value: config.web.testing },
+    {
+      option: 'web.stateManagement',
+      path: '/web/stateManagement',
+      value: config.web.stateManagement,
+    },
+    { option: 'backend.type', path: '/backend/type', value: config.backend?.type },
+  ];
+
+  for (const { option, path, value } of values) {
+    const reason = value === undefined ? undefined : getPlannedReason(option, value);
+    if (reason) {
+      diagnostics.push({
+        path,
+        severity: 'error',
+        message: reason,
+        value,
+        allowed: getSupportedValues(option),
+      });
+    }
+  }
+
+  for (const rule of COMPATIBILITY_RULES) {
+    if (rule.applies(config)) {
+      diagnostics.push({
+        path: rule.path,
+        severity: rule.severity,
+        message: rule.message,
+        value: rule.value(config),
+      });
+    }
+  }
+
+  return diagnostics;
+}
@@ -1,146 +1,128 @@
-import type { WorkspaceConfig } from '../types/config.js';
+import fs from 'fs-extra';
+import { Ajv, type ErrorObject, type ValidateFunction } from 'ajv';
+import { getConfigSchemaPath } from '../utils/file-system.js';
+import { findClosestMatch } from '../utils/did-you-mean.js';
+import { checkCapabilities } from './capabilities.js';
+import type { ConfigDiagnostic, WorkspaceConfig } from '../types/config.js';
 
 /**
- * Validation result
+ * Validation result - valid unless a diagnostic has error severity
  */
 export interface ConfigValidationResult {
   valid: boolean;
-  errors: string[];
+  diagnostics: ConfigDiagnostic[];
 }
 
+let compiledSchema: ValidateFunction | undefined;
+
 /**
- * Validate workspace configuration
+ * Load the JSON Schema generated from WorkspaceConfigFile (npm run schema)
  */
-export function validateConfig(config: unknown): ConfigValidationResult {
-  const errors: string[] = [];
-
-  // Type guard
-  if (typeof config !== 'object' || config === null) {
-    return { valid: false, errors: ['Config must be an object'] };
-  }
-
-  const cfg = config as Partial<WorkspaceConfig>;
-
-  // Required: name
-  if (!cfg.name || typeof cfg.name !== 'string') {
-    errors.push('Missing or invalid "name" field');
-  }
-
-  // Required: workspace
-  if (!cfg.workspace || typeof cfg.workspace !== 'object') {
-    errors.push('Missing or invalid "workspace" field');
-  } else {
-    const { type, platforms } = cfg.workspace;
-
-    if (!type || !['single', 'multi'].includes(type)) {
-      errors.push('workspace.type must be "single" or "multi"');
-    }
-
-    if (!Array.isArray(platforms) || platforms.length === 0) {
-      errors.push('workspace.platforms must be a non-empty array');
-    }
+export function loadConfigSchema(): Record<string, unknown> {
+  return fs.readJsonSync(getConfigSchemaPath());
+}
 
-    const validPlatforms = ['web', 'pwa', 'ios', 'android'];
-    const invalidPlatforms = platforms?.filter((p) => !validPlatforms.includes(p)) || [];
-    if (invalidPlatforms.length > 0) {
-      errors.push(`Invalid platforms: ${invalidPlatforms.join(', ')}`);
-    }
+/**
+ * Validate workspace configuration against the JSON Schema, then against the
+ * capability matrix for values and combinations the generator cannot produce.
+ * Unknown options are warnings; everything else the schema rejects is an error.
+ */
+export function validateConfig(config: unknown): ConfigValidationResult {
+  compiledSchema ??= new Ajv({ allErrors: true, verbose: true }).compile(loadConfigSchema());
 
-    // Logical checks
-    if (type === 'single' && platforms && platforms.length > 1) {
-      errors.push('Single workspace can only have one platform (web or pwa)');
-    }
+  const diagnostics = compiledSchema(config) ? [] : (compiledSchema.errors ?? []).map(toDiagnostic);
 
-    if (platforms?.includes('ios') || platforms?.includes('android')) {
-      if (!platforms.includes('web') && !platforms.includes('pwa')) {
-        errors.push('Native apps require web or pwa platform');
-      }
-    }
+  // The capability matrix relies on the shape the schema guarantees
+  if (!hasErrors(diagnostics)) {
+    diagnostics.push(...checkCapabilities(config as WorkspaceConfig));
   }
 
-  // Required: web
-  if (!cfg.web || typeof cfg.web !== 'object') {
-    errors.push('Missing or invalid "web" field');
-  } else {
-    const { framework, typescript, styling, ui, testing, linting, formatting, gitHooks } = cfg.web;
-
-    if (!framework || !['next', 'vite', 'remix'].includes(framework)) {
-      errors.push('web.framework must be "next", "vite", or "remix"');
-    }
-
-    if (typeof typescript !== 'boolean') {
-      errors.push('web.typescript must be a boolean');
-    }
-
-    if (!styling || !['tailwind', 'css-modules', 'styled-components'].includes(styling)) {
-      errors.push('web.styling must be "tailwind", "css-modules", or "styled-components"');
-    }
-
-    if (!ui || !['radix', 'shadcn', 'mui', 'chakra', 'none'].includes(ui)) {
-      errors.push('web.ui must be "radix", "shadcn", "mui", "chakra", or "none"');
-    }
-
-    if (!testing || !['playwright', 'cypress', 'vitest', 'none'].includes(testing)) {
-      errors.push('web.testing must be "playwright", "cypress", "vitest", or "none"');
-    }
-
-    if (typeof linting !== 'boolean') {
-      errors.push('web.linting must be a boolean');
-    }
+  return {
+    valid: !hasErrors(diagnostics),
+    diagnostics,
+  };
+}
 
-    if (typeof formatting !== 'boolean') {
-      errors.push('web.formatting must be a boolean');
-    }
+/**
+ * One line per diagnostic: "<json pointer>: <message>, got <value>, did you mean ...?"
+ */
+export function formatDiagnostic(diagnostic: ConfigDiagnostic): string {
+  const parts = [`${diagnostic.path}: ${diagnostic.message}`];
 
-    if (typeof gitHooks !== 'boolean') {
-      errors.push('web.gitHooks must be a boolean');
-    }
+  const value = JSON.stringify(diagnostic.value);
+  if (value !== undefined && value.length <= 40 && diagnostic.severity === 'error') {
+    parts.push(`got ${value}`);
   }
 
-  // Required: documentation
-  if (!cfg.documentation || typeof cfg.documentation !== 'object') {
-    errors.push('Missing or invalid "documentation" field');
-  } else {
-    const { aiInstructions, architecture, apiDocs, styleguide } = cfg.documentation;
-
-    if (typeof aiInstructions !== 'boolean') {
-      errors.push('documentation.aiInstructions must be a boolean');
-    }
-
-    if (typeof architecture !== 'boolean') {
-      errors.push('documentation.architecture must be a boolean');
-    }
-
-    if (typeof apiDocs !== 'boolean') {
-      errors.push('documentation.apiDocs must be a boolean');
-    }
-
-    if (typeof styleguide !== 'boolean') {
-      errors.push('documentation.styleguide must be a boolean');
-    }
+  if (diagnostic.suggestion) {
+    parts.push(`did you mean "${diagnostic.suggestion}"?`);
   }
 
-  // Optional: backend
-  if (cfg.backend) {
-    const { type, features } = cfg.backend;
+  return parts.join(', ');
+}
 
-    if (!type || !['firebase', 'supabase', 'custom', 'none'].includes(type)) {
-      errors.push('backend.type must be "firebase", "supabase", "custom", or "none"');
-    }
+function hasErrors(diagnostics: ConfigDiagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+}
 
-    if (!Array.isArray(features)) {
-      errors.push('backend.features must be an array');
-    } else {
-      const validFeatures = ['auth', 'database', 'storage', 'functions'];
-      const invalidFeatures = features.filter((f) => !validFeatures.includes(f));
-      if (invalidFeatures.length > 0) {
-        errors.push(`Invalid backend features: ${invalidFeatures.join(', ')}`);
-      }
-    }
+/**
+ * Turn an Ajv error into a diagnostic, suggesting the closest allowed value
+ */
+function toDiagnostic(error: ErrorObject): ConfigDiagnostic {
+  const pointer = error.instancePath || '/';
+
+  switch (error.keyword) {
+    case 'enum': {
+      const allowed = error.params.allowedValues as unknown[];
+      return {
+        path: pointer,
+        severity: 'error',
+        message: `must be one of ${allowed.map((value) => JSON.stringify(value)).join(', ')}`,
+        value: error.data,
+        allowed,
+        suggestion:
+          typeof error.data === 'string'
+            ? findClosestMatch(error.data, allowed.map(String))
+            : undefined,
+      };
+    }
+
+    case 'required':
+      return {
+        path: joinPointer(pointer, error.params.missingProperty),
+        severity: 'error',
+        message: 'is required',
+      };
+
+    case 'additionalProperties': {
+      const property = error.params.additionalProperty as string;
+      const known = Object.keys(
+        (error.parentSchema?.properties as Record<string, unknown> | undefined) ?? {}
+      );
+      return {
+        path: joinPointer(pointer, property),
+        severity: 'warning',
+        message: 'is not a known option and will be ignored',
+        value: (error.data as Record<string, unknown>)[property],
+        allowed: known,
+        suggestion: findClosestMatch(property, known),
+      };
+    }
+
+    default:
+      return {
+        path: pointer,
+        severity: 'error',
+        message: error.message ?? 'is invalid',
+        value: error.data,
+      };
   }
+}
 
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+/**
+ * Append a property to a JSON pointer, escaping "~" and "/" per RFC 6901
+ */
+function joinPointer(pointer: string, property: string): string {
+  const escaped = property.replace(/~/g, '~0').replace(/\//g, '~1');
+  return `${pointer === '/' ? '' : pointer}/${escaped}`;
 }
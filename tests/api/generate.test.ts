@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { generate, validateConfig, GeneratorError, type Logger } from '../../src/index.js';
+import { createDefaultConfig } from '../../src/prompts/config-loader.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_OUTPUT_DIR = path.join(__dirname, '..', '..', 'test-output');
+
+describe('Programmatic API', () => {
+  beforeEach(async () => {
+    await fs.ensureDir(TEST_OUTPUT_DIR);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (await fs.pathExists(TEST_OUTPUT_DIR)) {
+      await fs.remove(TEST_OUTPUT_DIR);
+    }
+  });
+
+  it('should generate a project without printing anything', async () => {
+    const stdout = vi.spyOn(process.stdout, 'write');
+    const stderr = vi.spyOn(process.stderr, 'write');
+    const consoleLog = vi.spyOn(console, 'log');
+    const targetDir = path.join(TEST_OUTPUT_DIR, 'api-app');
+
+    const result = await generate(createDefaultConfig('api-app'), { targetDir });
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(stderr).not.toHaveBeenCalled();
+    expect(consoleLog).not.toHaveBeenCalled();
+
+    expect(result.targetDir).toBe(targetDir);
+    expect(result.dryRun).toBe(false);
+    expect(result.warnings).toEqual([]);
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+    expect(result.files.map((file) => file.path)).toContain('package.json');
+
+    const packageJson = await fs.readJson(path.join(targetDir, 'package.json'));
+    expect(packageJson.name).toBe('api-app');
+  }, 60000);
+
+  it('should report progress to the given logger', async () => {
+    const messages: string[] = [];
+    const record = (message: string) => {
+      messages.push(message);
+    };
+    const logger: Logger = {
+      info: record,
+      success: record,
+      warning: record,
+      error: record,
+      step: record,
+    };
+
+    await generate(createDefaultConfig('api-app'), {
+      targetDir: path.join(TEST_OUTPUT_DIR, 'api-app'),
+      logger,
+    });
+
+    expect(messages).toContain('Generating configuration files');
+    expect(messages.at(-1)).toContain('Project created in');
+  }, 60000);
+
+  it('should plan files without writing them in a dry run', async () => {
+    const targetDir = path.join(TEST_OUTPUT_DIR, 'api-app');
+
+    const result = await generate(createDefaultConfig('api-app'), { targetDir, dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.files.length).toBeGreaterThan(0);
+    expect(await fs.pathExists(targetDir)).toBe(false);
+  }, 60000);
+
+  it('should return unknown options as warnings', async () => {
+    const config = { ...createDefaultConfig('api-app'), colour: 'blue' };
+
+    const result = await generate(config, {
+      targetDir: path.join(TEST_OUTPUT_DIR, 'api-app'),
+      dryRun: true,
+    });
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]?.path).toBe('/colour');
+  }, 60000);
+
+  it('should throw diagnostics for invalid configs instead of exiting', async () => {
+    const config = createDefaultConfig('api-app');
+    config.web.styling = 'sass' as never;
+
+    expect(validateConfig(config).valid).toBe(false);
+
+    const error = await generate(config, {
+      targetDir: path.join(TEST_OUTPUT_DIR, 'api-app'),
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(GeneratorError);
+    expect((error as GeneratorError).code).toBe('INVALID_CONFIG');
+    expect((error as GeneratorError).diagnostics[0]?.path).toBe('/web/styling');
+  }, 60000);
+
+  it('should refuse to generate into an existing directory without a conflict strategy', async () => {
+    const targetDir = path.join(TEST_OUTPUT_DIR, 'api-app');
+    await fs.ensureDir(targetDir);
+
+    await expect(generate(createDefaultConfig('api-app'), { targetDir })).rejects.toMatchObject({
+      code: 'DIRECTORY_EXISTS',
+    });
+  }, 60000);
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runCLI, createProject, validateGeneratedProject } from '../helpers/cli-runner.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_OUTPUT_DIR = path.join(__dirname, '..', '..', 'test-output');
+
+describe('CLI Add Command', () => {
+  const projectName = 'add-feature-test';
+  const projectPath = path.join(TEST_OUTPUT_DIR, projectName);
+
+  beforeEach(async () => {
+    await fs.ensureDir(TEST_OUTPUT_DIR);
+    await createProject(projectName, { skipInstall: true, cwd: TEST_OUTPUT_DIR });
+  });
+
+  afterEach(async () => {
+    if (await fs.pathExists(TEST_OUTPUT_DIR)) {
+      await fs.remove(TEST_OUTPUT_DIR);
+    }
+  });
+
+  it('should add Firebase files and merge dependencies into package.json', async () => {
+    const readmeBefore = await fs.readFile(path.join(projectPath, 'README.md'), 'utf-8');
+
+    const result = await runCLI(['add', 'firebase', '--firebase-pattern', 'server-first'], {
+      cwd: projectPath,
+    });
+
+    expect(result.exitCode).toBe(0);
+
+    const validation = await validateGeneratedProject(projectPath, [
+      'middleware.ts',
+      'firestore.rules',
+      'src/lib/firebase-admin/config.ts',
+      'src/app/api/auth/login/route.ts',
+    ]);
+    expect(validation.missingFiles).toEqual([]);
+
+    const packageJson = await fs.readJson(path.join(projectPath, 'package.json'));
+    expect(packageJson.name).toBe(projectName);
+    expect(packageJson.dependencies).toHaveProperty('firebase');
+    expect(packageJson.dependencies).toHaveProperty('firebase-admin');
+    expect(packageJson.dependencies).toHaveProperty('next');
+
+    const manifest = await fs.readJson(path.join(projectPath, '.awg', 'manifest.json'));
+    expect(manifest.config.backend.type).toBe('firebase');
+    expect(manifest.files.map((file: { path: string }) => file.path)).toContain('middleware.ts');
+
+    // Existing files are never overwritten
+    const readmeAfter = await fs.readFile(path.join(projectPath, 'README.md'), 'utf-8');
+    expect(readmeAfter).toBe(readmeBefore);
+  }, 60000);
+
+  it('should keep user-pinned dependency versions', async () => {
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    const packageJson = await fs.readJson(packageJsonPath);
+    packageJson.dependencies.next = '15.0.0';
+    await fs.writeJson(packageJsonPath, packageJson, { spaces: 2 });
+
+    const result = await runCLI(['add', 'zustand', '--dir', projectPath], {
+      cwd: TEST_OUTPUT_DIR,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(await fs.pathExists(path.join(projectPath, 'src/stores/useAuthStore.ts'))).toBe(true);
+
+    const updated = await fs.readJson(packageJsonPath);
+    expect(updated.dependencies.next).toBe('15.0.0');
+    expect(updated.dependencies).toHaveProperty('zustand');
+  }, 60000);
+
+  it('should reject features that are already enabled', async () => {
+    const result = await runCLI(['add', 'context'], { cwd: projectPath });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('already enabled');
+  }, 60000);
+
+  it('should reject unknown features', async () => {
+    const result = await runCLI(['add', 'graphql'], { cwd: projectPath });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('Unsupported feature');
+  }, 60000);
+
+  it('should reject unknown backend features', async () => {
+    const result = await runCLI(['add', 'firebase', '--backend-features', 'auth,graphql'], {
+      cwd: projectPath,
+    });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('Unknown backend feature "graphql"');
+    expect(result.stdout + result.stderr).toContain('auth, database, storage, functions');
+  }, 60000);
+
+  it('should fail outside of a generated project', async () => {
+    const result = await runCLI(['add', 'pwa', '--dir', path.join(TEST_OUTPUT_DIR, 'missing')], {
+      cwd: TEST_OUTPUT_DIR,
+    });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('PROJECT_NOT_FOUND');
+  }, 60000);
+});
@@ -3,6 +3,7 @@ import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import {
+  runCLI,
   createProject,
   validateGeneratedProject,
   installDependencies,
@@ -187,4 +188,749 @@ describe('CLI Config File Mode', () => {
     expect(packageJson.dependencies).toHaveProperty('next');
     expect(packageJson.dependencies).toHaveProperty('react');
   }, 60000);
+
+  it('should save a config that can be used to generate the same project', async () => {
+    const result = await runCLI(
+      ['create', 'saved-config-app', '--save-config', 'saved.json', '--dry-run'],
+      { cwd: TEST_OUTPUT_DIR }
+    );
+    expect(result.exitCode).toBe(0);
+
+    const configPath = path.join(TEST_OUTPUT_DIR, 'saved.json');
+    const saved = await fs.readJson(configPath);
+    expect(saved.name).toBe('saved-config-app');
+
+    const generated = await createProject('unused', {
+      config: configPath,
+      skipInstall: true,
+      cwd: TEST_OUTPUT_DIR,
+    });
+    expect(generated.exitCode).toBe(0);
+
+    const manifest = await fs.readJson(
+      path.join(TEST_OUTPUT_DIR, 'saved-config-app', '.awg', 'manifest.json')
+    );
+    expect(manifest.config).toEqual(saved);
+  }, 60000);
+
+  it('should refuse to overwrite an existing file with config init', async () => {
+    await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'awg.config.json'), { name: 'existing' });
+
+    const result = await runCLI(['config', 'init'], { cwd: TEST_OUTPUT_DIR });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('CONFIG_FILE_EXISTS');
+    expect(await fs.readJson(path.join(TEST_OUTPUT_DIR, 'awg.config.json'))).toEqual({
+      name: 'existing',
+    });
+  }, 60000);
+
+  it('should merge a config over the config it extends', async () => {
+    const minimal = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+    await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'house.json'), {
+      ...minimal,
+      name: 'house-standard',
+      web: { ...minimal.web, gitHooks: true, linting: true, formatting: true },
+      packageManager: 'pnpm',
+    });
+    await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'team.json'), {
+      extends: './house.json',
+      name: 'team-app',
+      web: { gitHooks: false },
+    });
+
+    const result = await createProject('unused', {
+      config: path.join(TEST_OUTPUT_DIR, 'team.json'),
+      skipInstall: true,
+      cwd: TEST_OUTPUT_DIR,
+    });
+    expect(result.exitCode).toBe(0);
+
+    const { config } = await fs.readJson(
+      path.join(TEST_OUTPUT_DIR, 'team-app', '.awg', 'manifest.json')
+    );
+    expect(config.name).toBe('team-app');
+    expect(config.packageManager).toBe('pnpm');
+    expect(config.web).toMatchObject({ linting: true, gitHooks: false, framework: 'next' });
+    expect(config).not.toHaveProperty('extends');
+  }, 60000);
+
+  it('should extend a preset by name', async () => {
+    await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'app.json'), {
+      extends: 'firebase-server',
+      name: 'preset-based-app',
+    });
+
+    const result = await createProject('unused', {
+      config: path.join(TEST_OUTPUT_DIR, 'app.json'),
+      skipInstall: true,
+      cwd: TEST_OUTPUT_DIR,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(
+      await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'preset-based-app', 'middleware.ts'))
+    ).toBe(true);
+  }, 60000);
+
+  it('should reject circular extends chains', async () => {
+    await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'a.json'), { extends: './b.json' });
+    await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'b.json'), { extends: './a.json' });
+
+    const result = await createProject('unused', {
+      config: path.join(TEST_OUTPUT_DIR, 'a.json'),
+      skipInstall: true,
+      cwd: TEST_OUTPUT_DIR,
+    });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('INVALID_CONFIG');
+    expect(result.stdout + result.stderr).toContain('Circular "extends" chain');
+  }, 60000);
+
+  describe('Config File Formats', () => {
+    it('should load YAML configs', async () => {
+      await fs.writeFile(
+        path.join(TEST_OUTPUT_DIR, 'app.yaml'),
+        ['# House standard', 'extends: minimal', 'name: yaml-app', 'packageManager: pnpm', ''].join(
+          '\n'
+        )
+      );
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'app.yaml'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'yaml-app', 'package.json'))).toBe(
+        true
+      );
+    }, 60000);
+
+    it('should load JSONC configs with comments', async () => {
+      await fs.writeFile(
+        path.join(TEST_OUTPUT_DIR, 'app.jsonc'),
+        [
+          '{',
+          '  // Based on the minimal preset',
+          '  "extends": "minimal",',
+          '  "name": "jsonc-app",',
+          '}',
+        ].join('\n')
+      );
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'app.jsonc'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'jsonc-app', 'package.json'))).toBe(
+        true
+      );
+    }, 60000);
+
+    it('should load TypeScript configs using defineConfig', async () => {
+      const minimal = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      await fs.writeFile(
+        path.join(TEST_OUTPUT_DIR, 'awg.config.ts'),
+        [
+          "import { defineConfig } from 'app-workspace-generator/config';",
+          '',
+          `export default defineConfig(${JSON.stringify({ ...minimal, name: 'ts-app' })});`,
+          '',
+        ].join('\n')
+      );
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'awg.config.ts'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'ts-app', 'package.json'))).toBe(true);
+    }, 60000);
+
+    it('should report the line and column of syntax errors', async () => {
+      await fs.writeFile(
+        path.join(TEST_OUTPUT_DIR, 'broken.json'),
+        ['{', '  "name": "broken",', '  "web": }', ''].join('\n')
+      );
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'broken.json'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout + result.stderr).toContain('CONFIG_PARSE_FAILED');
+      expect(result.stdout + result.stderr).toContain('broken.json:3:10');
+    }, 60000);
+  });
+
+  describe('Config Validation', () => {
+    it('should report structured diagnostics as JSON', async () => {
+      const config = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      config.web.testing = 'playwrite';
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'typo.json'), config);
+
+      const result = await runCLI(['config', 'validate', 'typo.json', '--json'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(1);
+      expect(JSON.parse(result.stdout)).toEqual({
+        valid: false,
+        diagnostics: [
+          {
+            path: '/web/testing',
+            severity: 'error',
+            message: 'must be one of "playwright", "cypress", "vitest", "none"',
+            value: 'playwrite',
+            allowed: ['playwright', 'cypress', 'vitest', 'none'],
+            suggestion: 'playwright',
+          },
+        ],
+      });
+    }, 60000);
+
+    it('should show did-you-mean suggestions when creating', async () => {
+      const config = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      config.web.styling = 'tailwnd';
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'typo.json'), config);
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'typo.json'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout + result.stderr).toContain('INVALID_CONFIG');
+      expect(result.stdout + result.stderr).toContain('did you mean "tailwind"?');
+    }, 60000);
+
+    it('should treat unknown options as warnings', async () => {
+      const config = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      config.packageManagr = 'pnpm';
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'unknown.json'), config);
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'unknown.json'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('/packageManagr: is not a known option');
+      expect(result.stdout).toContain('did you mean "packageManager"?');
+    }, 60000);
+
+    it('should reject option values that are not implemented yet', async () => {
+      const config = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      config.web.framework = 'vite';
+      config.web.ui = 'mui';
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'planned.json'), config);
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'planned.json'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout).toContain('/web/framework: Vite is not implemented yet');
+      expect(result.stdout).toContain('/web/ui: Material-UI is not implemented yet');
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, config.name))).toBe(false);
+    }, 60000);
+
+    it('should reject contradictory option combinations', async () => {
+      const config = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      config.workspace.platforms = ['web', 'ios'];
+      config.backend = { type: 'none', features: ['auth'], firebasePattern: 'client-side' };
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'contradictory.json'), config);
+
+      const result = await runCLI(['config', 'validate', 'contradictory.json', '--json'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(1);
+      const { diagnostics } = JSON.parse(result.stdout);
+      expect(diagnostics.map((d: { path: string }) => d.path)).toEqual([
+        '/workspace/platforms/1',
+        '/workspace/platforms',
+        '/workspace/platforms',
+        '/backend/firebasePattern',
+        '/backend/features',
+      ]);
+      expect(diagnostics[2].message).toContain('native platforms need a "multi" workspace');
+    }, 60000);
+  });
+
+  describe('Config Versions', () => {
+    it('should migrate a config file in place', async () => {
+      const config = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      config.web.linting = false;
+      delete config.web.formatting;
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'old.json'), config);
+
+      const result = await runCLI(['config', 'migrate', 'old.json'], { cwd: TEST_OUTPUT_DIR });
+
+      expect(result.exitCode).toBe(0);
+      const migrated = await fs.readJson(path.join(TEST_OUTPUT_DIR, 'old.json'));
+      expect(migrated.version).toBe(3);
+      expect(migrated.web).toMatchObject({
+        linting: false,
+        formatting: false,
+        stateManagement: 'none',
+      });
+    }, 60000);
+
+    it('should keep comments when migrating a YAML config', async () => {
+      await fs.writeFile(
+        path.join(TEST_OUTPUT_DIR, 'old.yaml'),
+        `# house standard
+name: yaml-app
+workspace: { type: single, platforms: [web] }
+web:
+  framework: next
+  typescript: true
+  styling: tailwind
+  ui: none
+  testing: none
+  linting: false # no lint in prototypes
+  gitHooks: true
+documentation: { aiInstructions: true, architecture: false, apiDocs: false, styleguide: false }
+`
+      );
+
+      const result = await runCLI(['config', 'migrate', 'old.yaml'], { cwd: TEST_OUTPUT_DIR });
+
+      expect(result.exitCode).toBe(0);
+      const migrated = await fs.readFile(path.join(TEST_OUTPUT_DIR, 'old.yaml'), 'utf-8');
+      expect(migrated).toMatch(/^# house standard\nversion: 3\n/);
+      expect(migrated).toContain('linting: false # no lint in prototypes');
+      expect(migrated).toContain('formatting: false');
+    }, 60000);
+
+    it('should refuse to drop the comments of a JSONC config', async () => {
+      const content = `{
+  // house standard
+  "name": "jsonc-app",
+  "workspace": { "type": "single", "platforms": ["web"] },
+  "web": { "framework": "next", "typescript": true, "styling": "tailwind", "ui": "none",
+    "testing": "none", "linting": true, "gitHooks": true },
+  "documentation": { "aiInstructions": true, "architecture": false, "apiDocs": false,
+    "styleguide": false }
+}
+`;
+      await fs.writeFile(path.join(TEST_OUTPUT_DIR, 'old.jsonc'), content);
+
+      const result = await runCLI(['config', 'migrate', 'old.jsonc'], { cwd: TEST_OUTPUT_DIR });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout).toContain('CONFIG_MIGRATION_FAILED');
+      expect(result.stdout).toContain('apply these steps by hand');
+      expect(await fs.readFile(path.join(TEST_OUTPUT_DIR, 'old.jsonc'), 'utf-8')).toBe(content);
+    }, 60000);
+
+    it('should not default options that an extending file inherits', async () => {
+      const base = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      base.version = 3;
+      base.web.stateManagement = 'zustand';
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'base.json'), base);
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'app.json'), {
+        extends: './base.json',
+        name: 'inherits-app',
+        web: { linting: true },
+      });
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'app.json'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      const packageJson = await fs.readJson(
+        path.join(TEST_OUTPUT_DIR, 'inherits-app', 'package.json')
+      );
+      expect(packageJson.dependencies).toHaveProperty('zustand');
+    }, 60000);
+
+    it('should reject configs from a newer generator', async () => {
+      const config = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+      config.version = 99;
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'future.json'), config);
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'future.json'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout + result.stderr).toContain('CONFIG_MIGRATION_FAILED');
+    }, 60000);
+  });
+
+  describe('Partial Configs', () => {
+    const sparseConfig = {
+      name: 'sparse-app',
+      backend: { type: 'firebase', features: ['auth'] },
+    };
+
+    it('should generate from a sparse config filled from defaults', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'sparse.json'), sparseConfig);
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'sparse.json'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      const packageJson = await fs.readJson(
+        path.join(TEST_OUTPUT_DIR, 'sparse-app', 'package.json')
+      );
+      expect(packageJson.dependencies).toHaveProperty('firebase');
+    }, 60000);
+
+    it('should print the resolved config', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'sparse.json'), sparseConfig);
+
+      const result = await runCLI(['config', 'resolve', 'sparse.json'], { cwd: TEST_OUTPUT_DIR });
+
+      expect(result.exitCode).toBe(0);
+      const resolved = JSON.parse(result.stdout);
+      expect(resolved).toMatchObject({
+        ...sparseConfig,
+        workspace: { type: 'single', platforms: ['web'] },
+        web: { framework: 'next', testing: 'playwright', linting: true },
+        documentation: { aiInstructions: true },
+      });
+    }, 60000);
+
+    it('should fill the same defaults whichever sections are given', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'a1.json'), { name: 'a1' });
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'a2.json'), {
+        name: 'a2',
+        web: { testing: 'none' },
+      });
+
+      const [first, second] = await Promise.all(
+        ['a1.json', 'a2.json'].map((file) =>
+          runCLI(['config', 'resolve', file], { cwd: TEST_OUTPUT_DIR })
+        )
+      );
+
+      expect(first.exitCode).toBe(0);
+      expect(second.exitCode).toBe(0);
+      const { web: firstWeb } = JSON.parse(first.stdout);
+      const { web: secondWeb } = JSON.parse(second.stdout);
+      expect(secondWeb).toEqual({ ...firstWeb, testing: 'none' });
+      expect(secondWeb.stateManagement).toBe('context');
+    }, 60000);
+
+    it('should fill backend defaults that match what is generated', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'backend.json'), {
+        name: 'backend-app',
+        backend: { type: 'firebase' },
+      });
+
+      const resolved = await runCLI(['config', 'resolve', 'backend.json'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(resolved.exitCode).toBe(0);
+      expect(JSON.parse(resolved.stdout).backend).toEqual({
+        type: 'firebase',
+        features: ['auth', 'database'],
+        firebasePattern: 'server-first',
+      });
+
+      const result = await runCLI(['create', '--config', 'backend.json', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      const packageJson = await fs.readJson(
+        path.join(TEST_OUTPUT_DIR, 'backend-app', 'package.json')
+      );
+      expect(packageJson.dependencies).toHaveProperty('firebase-admin');
+    }, 60000);
+
+    it('should still require a name', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'nameless.json'), { web: { testing: 'none' } });
+
+      const result = await runCLI(['config', 'resolve', 'nameless.json'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout).toContain('/name: is required');
+    }, 60000);
+  });
+
+  describe('Environment Variables', () => {
+    const templatedConfig = {
+      name: '${env:APP_NAME:-customer-app}',
+      author: '${AUTHOR_NAME}',
+      description: 'Costs $${PRICE}',
+    };
+
+    it('should interpolate environment variables with defaults', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'templated.json'), templatedConfig);
+
+      const result = await runCLI(['config', 'resolve', 'templated.json'], {
+        cwd: TEST_OUTPUT_DIR,
+        env: { AUTHOR_NAME: 'Acme Corp' },
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(JSON.parse(result.stdout)).toMatchObject({
+        name: 'customer-app',
+        author: 'Acme Corp',
+        description: 'Costs ${PRICE}',
+      });
+    }, 60000);
+
+    it('should fail for undefined variables without defaults', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'templated.json'), templatedConfig);
+
+      const result = await createProject('unused', {
+        config: path.join(TEST_OUTPUT_DIR, 'templated.json'),
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout).toContain('CONFIG_VARIABLE_UNDEFINED');
+      expect(result.stdout).toContain('/author: environment variable AUTHOR_NAME is not set');
+    }, 60000);
+  });
+
+  describe('JSON Output', () => {
+    const parseEvents = (stdout: string) =>
+      stdout
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+
+    it('should emit one JSON event per line', async () => {
+      const result = await runCLI(
+        [
+          'create',
+          '--config',
+          path.join(FIXTURES_DIR, 'minimal.json'),
+          '--skip-install',
+          '--output',
+          'json',
+        ],
+        { cwd: TEST_OUTPUT_DIR }
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).not.toContain('App Workspace Generator');
+
+      const events = parseEvents(result.stdout);
+      const types = new Set(events.map((event) => event.type));
+      expect(types).toContain('step-started');
+      expect(events).toContainEqual({
+        project: 'minimal-test-app',
+        type: 'file-written',
+        path: 'package.json',
+        action: 'created',
+        source: 'web/config/package.json.hbs',
+      });
+
+      const completed = events.at(-1);
+      expect(completed).toMatchObject({
+        project: 'minimal-test-app',
+        type: 'completed',
+        summary: {
+          targetDir: path.join(TEST_OUTPUT_DIR, 'minimal-test-app'),
+          conflicts: 0,
+          dryRun: false,
+        },
+      });
+      expect(completed.summary.files).toBe(
+        events.filter((event) => event.type === 'file-written').length
+      );
+    }, 60000);
+
+    it('should emit errors with their code and suggestions', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'typo.json'), {
+        name: 'typo-app',
+        web: { styling: 'tailwnd' },
+      });
+
+      const result = await runCLI(['create', '--config', 'typo.json', '--output', 'json'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      const error = parseEvents(result.stdout).at(-1);
+      expect(error).toMatchObject({ type: 'error', code: 'INVALID_CONFIG' });
+      expect(error.suggestions.length).toBeGreaterThan(0);
+      expect(error.diagnostics[0]).toMatchObject({
+        path: '/web/styling',
+        suggestion: 'tailwind',
+      });
+    }, 60000);
+
+    it('should reject conflict prompts, which cannot be answered', async () => {
+      const result = await runCLI(
+        [
+          'create',
+          '--config',
+          path.join(FIXTURES_DIR, 'minimal.json'),
+          '--conflict',
+          'prompt',
+          '--output',
+          'json',
+        ],
+        { cwd: TEST_OUTPUT_DIR }
+      );
+
+      expect(result.exitCode).not.toBe(0);
+      expect(parseEvents(result.stdout)).toEqual([
+        expect.objectContaining({ type: 'error', code: 'INVALID_CONFIG' }),
+      ]);
+      expect(await fs.readdir(TEST_OUTPUT_DIR)).toEqual([]);
+    }, 60000);
+
+    it('should report a missing config file by its code', async () => {
+      const result = await runCLI(['create', '--config', 'missing.json', '--output', 'json'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      const error = parseEvents(result.stdout).at(-1);
+      expect(error).toMatchObject({ type: 'error', code: 'CONFIG_FILE_NOT_FOUND' });
+      expect(error.suggestions.length).toBeGreaterThan(0);
+    }, 60000);
+  });
+
+  describe('Lifecycle Hooks', () => {
+    const hookedConfig = (hooks: Record<string, string[]>) => ({
+      name: 'hooked-app',
+      packageManager: 'npm',
+      hooks,
+    });
+
+    it('should run shell and module hooks in the project directory', async () => {
+      // A package manager that installs nothing, so postInstall hooks run
+      const fakeBin = path.join(TEST_OUTPUT_DIR, 'fake-bin');
+      await fs.outputFile(path.join(fakeBin, 'npm'), '#!/bin/sh\nexit 0\n');
+      await fs.chmod(path.join(fakeBin, 'npm'), 0o755);
+
+      await fs.outputFile(
+        path.join(TEST_OUTPUT_DIR, 'configs', 'scripts', 'register.mjs'),
+        `import fs from 'fs';
+const context = JSON.parse(process.env.AWG_TEMPLATE_CONTEXT);
+fs.writeFileSync('registered.json', JSON.stringify({
+  cwd: process.cwd(),
+  hook: process.env.AWG_HOOK,
+  projectDir: process.env.AWG_PROJECT_DIR,
+  projectName: context.projectName,
+}));
+`
+      );
+      // Module paths are relative to the config file, not the working directory
+      await fs.outputJson(
+        path.join(TEST_OUTPUT_DIR, 'configs', 'hooked.json'),
+        hookedConfig({
+          preGenerate: [
+            'test "$(pwd)" = "$AWG_STAGING_DIR" && echo "$AWG_HOOK" > pre-generate.txt',
+          ],
+          postGenerate: ['./scripts/register.mjs'],
+          postInstall: ['echo "$AWG_HOOK" > post-install.txt'],
+        })
+      );
+
+      const result = await runCLI(['create', '--config', 'configs/hooked.json'], {
+        cwd: TEST_OUTPUT_DIR,
+        env: { PATH: `${fakeBin}${path.delimiter}${process.env.PATH ?? ''}` },
+      });
+
+      expect(result.exitCode).toBe(0);
+      const projectPath = path.join(TEST_OUTPUT_DIR, 'hooked-app');
+      expect(await fs.readFile(path.join(projectPath, 'pre-generate.txt'), 'utf-8')).toBe(
+        'preGenerate\n'
+      );
+      expect(await fs.readJson(path.join(projectPath, 'registered.json'))).toEqual({
+        cwd: projectPath,
+        hook: 'postGenerate',
+        projectDir: projectPath,
+        projectName: 'hooked-app',
+      });
+      expect(await fs.readFile(path.join(projectPath, 'post-install.txt'), 'utf-8')).toBe(
+        'postInstall\n'
+      );
+    }, 60000);
+
+    it('should report a failing hook with its output', async () => {
+      await fs.writeJson(
+        path.join(TEST_OUTPUT_DIR, 'hooked.json'),
+        hookedConfig({ postGenerate: ['echo "license server down" >&2; exit 3'] })
+      );
+
+      const result = await runCLI(['create', '--config', 'hooked.json', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout).toContain('HOOK_FAILED');
+      expect(result.stdout).toContain('exited with code 3');
+      expect(result.stdout).toContain('license server down');
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'hooked-app', 'package.json'))).toBe(
+        true
+      );
+    }, 60000);
+
+    it('should leave variables in hook commands to the shell', async () => {
+      await fs.writeJson(
+        path.join(TEST_OUTPUT_DIR, 'hooked.json'),
+        hookedConfig({ postGenerate: ['echo ${AWG_PROJECT_DIR} > where.txt'] })
+      );
+
+      const resolved = await runCLI(['config', 'resolve', 'hooked.json'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(resolved.exitCode).toBe(0);
+      expect(JSON.parse(resolved.stdout).hooks.postGenerate).toEqual([
+        'echo ${AWG_PROJECT_DIR} > where.txt',
+      ]);
+
+      const result = await runCLI(['create', '--config', 'hooked.json', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      const projectPath = path.join(TEST_OUTPUT_DIR, 'hooked-app');
+      expect(await fs.readFile(path.join(projectPath, 'where.txt'), 'utf-8')).toBe(
+        `${projectPath}\n`
+      );
+    }, 60000);
+
+    it('should not run hooks in a dry run', async () => {
+      await fs.writeJson(
+        path.join(TEST_OUTPUT_DIR, 'hooked.json'),
+        hookedConfig({ postGenerate: ['exit 1'] })
+      );
+
+      const result = await runCLI(['create', '--config', 'hooked.json', '--dry-run'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+    }, 60000);
+  });
 });
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
 import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { execa } from 'execa';
 import { runCLI, createProject, validateGeneratedProject } from '../helpers/cli-runner.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -35,6 +37,20 @@ describe('CLI Create Command', () => {
       expect(await fs.pathExists(projectPath)).toBe(true);
     }, 60000);
 
+    it('should print the file plan without writing anything in dry-run mode', async () => {
+      const result = await runCLI(['create', 'dry-run-test', '--dry-run', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('dry-run-test/');
+      expect(result.stdout).toContain('package.json ← web/config/package.json.hbs');
+      expect(result.stdout).toContain('manifest.json');
+      expect(result.stdout).not.toContain('Project created successfully');
+
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'dry-run-test'))).toBe(false);
+    }, 60000);
+
     it('should skip npm install when --skip-install flag is provided', async () => {
       const result = await createProject('skip-install-test', {
         skipInstall: true,
@@ -215,5 +231,362 @@ describe('CLI Create Command', () => {
         expect(stat?.isDirectory()).toBe(true);
       }
     }, 60000);
+
+    it('should write a generation manifest with config, version and file hashes', async () => {
+      await createProject('manifest-test', {
+        skipInstall: true,
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      const projectPath = path.join(TEST_OUTPUT_DIR, 'manifest-test');
+      const manifest = await fs.readJson(path.join(projectPath, '.awg', 'manifest.json'));
+      const cliPackageJson = await fs.readJson(path.join(__dirname, '..', '..', 'package.json'));
+
+      expect(manifest.generatorVersion).toBe(cliPackageJson.version);
+      expect(manifest.config.name).toBe('manifest-test');
+
+      const nextConfig = manifest.files.find(
+        (file: { path: string }) => file.path === 'next.config.js'
+      );
+      expect(nextConfig.source).toBe('web/config/next.config.js.hbs');
+
+      const content = await fs.readFile(path.join(projectPath, 'next.config.js'));
+      const hash = crypto.createHash('sha256').update(content).digest('hex');
+      expect(nextConfig.hash).toBe(`sha256:${hash}`);
+
+      // Every recorded file exists on disk
+      for (const file of manifest.files) {
+        expect(await fs.pathExists(path.join(projectPath, file.path))).toBe(true);
+      }
+    }, 60000);
+  });
+
+  describe('Existing Directory', () => {
+    const projectPath = path.join(TEST_OUTPUT_DIR, 'existing-project');
+
+    beforeEach(async () => {
+      await fs.outputFile(path.join(projectPath, 'README.md'), '# My notes\n');
+    });
+
+    it('should keep existing files with --conflict=skip', async () => {
+      const result = await runCLI(
+        ['create', 'existing-project', '--conflict', 'skip', '--skip-install'],
+        { cwd: TEST_OUTPUT_DIR }
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('skipped');
+      expect(await fs.readFile(path.join(projectPath, 'README.md'), 'utf-8')).toBe('# My notes\n');
+      expect(await fs.pathExists(path.join(projectPath, 'package.json'))).toBe(true);
+
+      const manifest = await fs.readJson(path.join(projectPath, '.awg', 'manifest.json'));
+      const paths = manifest.files.map((file: { path: string }) => file.path);
+      expect(paths).not.toContain('README.md');
+    }, 60000);
+
+    it('should overwrite existing files with --force', async () => {
+      const result = await runCLI(['create', 'existing-project', '--force', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('overwritten');
+      expect(await fs.readFile(path.join(projectPath, 'README.md'), 'utf-8')).not.toBe(
+        '# My notes\n'
+      );
+    }, 60000);
+
+    it('should write generated files next to existing ones with --conflict=rename', async () => {
+      const result = await runCLI(
+        ['create', 'existing-project', '--conflict', 'rename', '--skip-install'],
+        { cwd: TEST_OUTPUT_DIR }
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(await fs.readFile(path.join(projectPath, 'README.md'), 'utf-8')).toBe('# My notes\n');
+      expect(await fs.pathExists(path.join(projectPath, 'README.md.awg-new'))).toBe(true);
+    }, 60000);
+
+    it('should generate into the current directory with "."', async () => {
+      const result = await runCLI(['create', '.', '--conflict', 'skip', '--skip-install'], {
+        cwd: projectPath,
+      });
+
+      expect(result.exitCode).toBe(0);
+      const packageJson = await fs.readJson(path.join(projectPath, 'package.json'));
+      expect(packageJson.name).toBe('existing-project');
+    }, 60000);
+
+    it('should restore the existing directory when moving files into place fails', async () => {
+      // A file where a directory is planned makes promotion fail part way
+      await fs.outputFile(path.join(projectPath, 'src'), 'not a directory\n');
+
+      const result = await runCLI(['create', 'existing-project', '--force', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(await fs.readFile(path.join(projectPath, 'README.md'), 'utf-8')).toBe('# My notes\n');
+      expect(await fs.readFile(path.join(projectPath, 'src'), 'utf-8')).toBe('not a directory\n');
+      expect(await fs.pathExists(path.join(projectPath, 'package.json'))).toBe(false);
+      expect(await fs.readdir(TEST_OUTPUT_DIR)).toEqual(['existing-project']);
+    }, 60000);
+
+    it('should not leave a staging directory behind', async () => {
+      const result = await runCLI(['create', 'existing-project', '--force', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(await fs.readdir(TEST_OUTPUT_DIR)).toEqual(['existing-project']);
+    }, 60000);
+  });
+
+  describe('Option Overrides', () => {
+    it('should layer option flags over the default config', async () => {
+      const result = await runCLI(
+        [
+          'create',
+          'flags-app',
+          '--backend',
+          'firebase',
+          '--firebase-pattern',
+          'server-first',
+          '--state',
+          'zustand',
+          '--pm',
+          'pnpm',
+          '--no-git-hooks',
+          '--pwa',
+          '--skip-install',
+        ],
+        { cwd: TEST_OUTPUT_DIR }
+      );
+
+      expect(result.exitCode).toBe(0);
+
+      const projectPath = path.join(TEST_OUTPUT_DIR, 'flags-app');
+      const { config } = await fs.readJson(path.join(projectPath, '.awg', 'manifest.json'));
+      expect(config.backend).toMatchObject({ type: 'firebase', firebasePattern: 'server-first' });
+      expect(config.web.stateManagement).toBe('zustand');
+      expect(config.web.gitHooks).toBe(false);
+      expect(config.packageManager).toBe('pnpm');
+      expect(config.workspace.platforms).toContain('pwa');
+
+      expect(await fs.pathExists(path.join(projectPath, 'middleware.ts'))).toBe(true);
+      expect(await fs.pathExists(path.join(projectPath, 'public/manifest.json'))).toBe(true);
+      expect(await fs.pathExists(path.join(projectPath, '.husky'))).toBe(false);
+    }, 60000);
+
+    it('should layer option flags over a config file', async () => {
+      const configPath = path.join(__dirname, '..', 'fixtures', 'configs', 'minimal.json');
+      const result = await runCLI(
+        ['create', '--config', configPath, '--state', 'zustand', '--skip-install'],
+        { cwd: TEST_OUTPUT_DIR }
+      );
+
+      expect(result.exitCode).toBe(0);
+      const projectPath = path.join(TEST_OUTPUT_DIR, 'minimal-test-app');
+      expect(await fs.pathExists(path.join(projectPath, 'src/stores/useAuthStore.ts'))).toBe(true);
+    }, 60000);
+
+    it('should reject invalid option values', async () => {
+      const result = await runCLI(['create', 'flags-app', '--state', 'redux'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout + result.stderr).toContain('INVALID_CONFIG');
+      expect(result.stdout + result.stderr).toContain('/web/stateManagement');
+    }, 60000);
+  });
+
+  describe('Batch Generation', () => {
+    const minimalConfig = (name: string) => ({ name, web: { testing: 'none', gitHooks: false } });
+
+    it('should generate a project per config file', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'a.json'), minimalConfig('batch-a'));
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'b.json'), minimalConfig('batch-b'));
+
+      const result = await runCLI(['create', '--config', 'a.json', 'b.json', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Batch summary');
+      for (const name of ['batch-a', 'batch-b']) {
+        expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, name, 'package.json'))).toBe(true);
+      }
+    }, 60000);
+
+    it('should report failures without affecting the rest of a parallel batch', async () => {
+      await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'matrix.json'), [
+        minimalConfig('batch-ok'),
+        minimalConfig('batch-existing'),
+        { ...minimalConfig('batch-invalid'), packageManager: 'pip' },
+      ]);
+      await fs.outputFile(path.join(TEST_OUTPUT_DIR, 'batch-existing', 'keep.txt'), 'keep');
+
+      const result = await runCLI(
+        ['create', '--config', 'matrix.json', '--parallel', '--skip-install'],
+        { cwd: TEST_OUTPUT_DIR }
+      );
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout).toContain('DIRECTORY_EXISTS');
+      expect(result.stdout).toContain('matrix.json[2]');
+      // Concurrent progress is labelled by project instead of interleaving step counters
+      expect(result.stdout).toContain('[batch-ok] Project created in');
+      expect(result.stdout).not.toContain('[1/5]');
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'batch-ok', 'package.json'))).toBe(
+        true
+      );
+      expect(await fs.readdir(path.join(TEST_OUTPUT_DIR, 'batch-existing'))).toEqual(['keep.txt']);
+      expect(await fs.readdir(TEST_OUTPUT_DIR)).toEqual([
+        'batch-existing',
+        'batch-ok',
+        'matrix.json',
+      ]);
+    }, 60000);
+  });
+
+  describe('Log Levels', () => {
+    const ANSI = '\u001b[';
+
+    it('should print nothing but problems with --quiet', async () => {
+      const result = await runCLI(['create', 'quiet-app', '--skip-install', '--quiet'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toBe('');
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'quiet-app', 'package.json'))).toBe(
+        true
+      );
+
+      const failed = await runCLI(['create', 'quiet-app', '--skip-install', '--quiet'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+      expect(failed.exitCode).not.toBe(0);
+      expect(failed.stdout).toContain('DIRECTORY_EXISTS');
+    }, 60000);
+
+    it('should list every file with its source template with --verbose', async () => {
+      const result = await runCLI(['create', 'verbose-app', '--skip-install', '--verbose'], {
+        cwd: TEST_OUTPUT_DIR,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('+ package.json ← web/config/package.json.hbs');
+      expect(result.stdout).toContain('+ src/app/layout.tsx ← web/src/app/layout.tsx.hbs');
+    }, 60000);
+
+    it('should only color output when forced and NO_COLOR is unset', async () => {
+      const forced = await runCLI(['create', 'color-app', '--skip-install', '--dry-run'], {
+        cwd: TEST_OUTPUT_DIR,
+        env: { FORCE_COLOR: '1', NO_COLOR: '' },
+      });
+      expect(forced.stdout).toContain(ANSI);
+
+      const plain = await runCLI(['create', 'color-app', '--skip-install', '--dry-run'], {
+        cwd: TEST_OUTPUT_DIR,
+        env: { FORCE_COLOR: '1', NO_COLOR: '1' },
+      });
+      expect(plain.exitCode).toBe(0);
+      expect(plain.stdout).not.toContain(ANSI);
+    }, 60000);
+  });
+
+  describe('Dependency Installation', () => {
+    const FAKE_BIN = path.join(TEST_OUTPUT_DIR, 'fake-bin');
+    const env = () => ({ PATH: `${FAKE_BIN}${path.delimiter}${process.env.PATH ?? ''}` });
+
+    // A stand-in package manager that records how it was called
+    const fakePackageManager = async (name: string, script: string) => {
+      const binPath = path.join(FAKE_BIN, name);
+      await fs.outputFile(binPath, `#!/bin/sh\n${script}\n`);
+      await fs.chmod(binPath, 0o755);
+    };
+
+    it('should install with the configured package manager', async () => {
+      await fakePackageManager('pnpm', 'echo "fake pnpm output"; echo "$@" > install-args.txt');
+
+      const result = await runCLI(
+        ['create', 'installed-app', '--pm', 'pnpm', '--prefer-offline', '--verbose'],
+        { cwd: TEST_OUTPUT_DIR, env: env() }
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('fake pnpm output');
+      const args = await fs.readFile(
+        path.join(TEST_OUTPUT_DIR, 'installed-app', 'install-args.txt'),
+        'utf-8'
+      );
+      expect(args.trim()).toBe('install --prefer-offline');
+    }, 60000);
+
+    it('should keep the generated files when installation fails', async () => {
+      await fakePackageManager('npm', 'echo "registry unreachable" >&2; exit 7');
+
+      const result = await runCLI(['create', 'offline-app', '--pm', 'npm', '--offline'], {
+        cwd: TEST_OUTPUT_DIR,
+        env: env(),
+      });
+
+      expect(result.exitCode).not.toBe(0);
+      expect(result.stdout).toContain('DEPENDENCY_INSTALLATION_FAILED');
+      expect(result.stdout).toContain('npm install --offline exited with code 7');
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'offline-app', 'package.json'))).toBe(
+        true
+      );
+    }, 60000);
+  });
+
+  describe('Git Repository', () => {
+    // Stop git from finding this repository above the test output
+    const env = { GIT_CEILING_DIRECTORIES: path.dirname(TEST_OUTPUT_DIR) };
+    const git = async (cwd: string, args: string[]) =>
+      (await execa('git', args, { cwd, env, reject: false })).stdout.trim();
+
+    it('should create a repository with an initial conventional commit', async () => {
+      const result = await runCLI(['create', 'git-app', '--skip-install'], {
+        cwd: TEST_OUTPUT_DIR,
+        env,
+      });
+
+      expect(result.exitCode).toBe(0);
+      const projectPath = path.join(TEST_OUTPUT_DIR, 'git-app');
+      expect(await git(projectPath, ['symbolic-ref', '--short', 'HEAD'])).toBe('main');
+      expect(await git(projectPath, ['log', '--format=%s'])).toBe(
+        'chore: initial commit from app-workspace-generator'
+      );
+      expect(await git(projectPath, ['status', '--porcelain'])).toBe('');
+      expect(await git(projectPath, ['ls-files'])).toContain('package.json');
+    }, 60000);
+
+    it('should not nest a repository inside an existing work tree', async () => {
+      const outerPath = path.join(TEST_OUTPUT_DIR, 'monorepo');
+      await fs.ensureDir(outerPath);
+      await git(outerPath, ['init', '--quiet']);
+
+      const result = await runCLI(['create', 'nested-app', '--skip-install'], {
+        cwd: outerPath,
+        env,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Already inside a git repository');
+      expect(await fs.pathExists(path.join(outerPath, 'nested-app', '.git'))).toBe(false);
+    }, 60000);
+
+    it('should skip the repository with --no-git', async () => {
+      const result = await runCLI(['create', 'no-git-app', '--skip-install', '--no-git'], {
+        cwd: TEST_OUTPUT_DIR,
+        env,
+      });
+
+      expect(result.exitCode).toBe(0);
+      expect(await fs.pathExists(path.join(TEST_OUTPUT_DIR, 'no-git-app', '.git'))).toBe(false);
+    }, 60000);
   });
 });
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runCLI, createProject } from '../helpers/cli-runner.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_OUTPUT_DIR = path.join(__dirname, '..', '..', 'test-output');
+
+describe('CLI Doctor Command', () => {
+  const projectName = 'doctor-test';
+  const projectPath = path.join(TEST_OUTPUT_DIR, projectName);
+
+  beforeEach(async () => {
+    await fs.ensureDir(TEST_OUTPUT_DIR);
+    await createProject(projectName, { skipInstall: true, cwd: TEST_OUTPUT_DIR });
+  });
+
+  afterEach(async () => {
+    if (await fs.pathExists(TEST_OUTPUT_DIR)) {
+      await fs.remove(TEST_OUTPUT_DIR);
+    }
+  });
+
+  it('should report no drift for a freshly generated project', async () => {
+    const result = await runCLI(['doctor'], { cwd: projectPath });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('No drift detected');
+  }, 60000);
+
+  it('should not require placeholder files that were deleted as instructed', async () => {
+    await fs.remove(path.join(projectPath, 'src/hooks/index.ts'));
+
+    const result = await runCLI(['doctor'], { cwd: projectPath });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('No drift detected');
+  }, 60000);
+
+  it('should report missing files and dependencies', async () => {
+    await fs.remove(path.join(projectPath, 'next.config.js'));
+    const packageJson = await fs.readJson(path.join(projectPath, 'package.json'));
+    delete packageJson.dependencies.react;
+    await fs.writeJson(path.join(projectPath, 'package.json'), packageJson, { spaces: 2 });
+
+    const result = await runCLI(['doctor'], { cwd: projectPath });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout).toContain('Expected file is missing: next.config.js');
+    expect(result.stdout).toContain('Missing dependencies entry: react@');
+  }, 60000);
+
+  it('should report files for disabled features and undocumented env keys', async () => {
+    await fs.outputFile(path.join(projectPath, 'src/stores/useAuthStore.ts'), 'export {};\n');
+    await fs.appendFile(path.join(projectPath, '.env.example'), 'NEXT_PUBLIC_EXTRA_KEY=\n');
+
+    const result = await runCLI(['doctor', '--json'], { cwd: projectPath });
+
+    expect(result.exitCode).not.toBe(0);
+    const report = JSON.parse(result.stdout);
+    expect(report.configSource).toBe('manifest');
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({
+        check: 'disabled-feature-file',
+        path: 'src/stores/useAuthStore.ts',
+      })
+    );
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({
+        check: 'env',
+        message: expect.stringContaining('NEXT_PUBLIC_EXTRA_KEY'),
+      })
+    );
+  }, 60000);
+});
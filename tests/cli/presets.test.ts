@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runCLI } from '../helpers/cli-runner.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_OUTPUT_DIR = path.join(__dirname, '..', '..', 'test-output');
+const CONFIG_HOME = path.join(TEST_OUTPUT_DIR, '.config');
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'configs');
+
+describe('CLI Presets', () => {
+  const env = { XDG_CONFIG_HOME: CONFIG_HOME };
+
+  beforeEach(async () => {
+    await fs.ensureDir(TEST_OUTPUT_DIR);
+  });
+
+  afterEach(async () => {
+    if (await fs.pathExists(TEST_OUTPUT_DIR)) {
+      await fs.remove(TEST_OUTPUT_DIR);
+    }
+  });
+
+  it('should list built-in and user presets', async () => {
+    await fs.copy(
+      path.join(FIXTURES_DIR, 'minimal.json'),
+      path.join(CONFIG_HOME, 'app-workspace-generator', 'presets', 'house.json')
+    );
+
+    const result = await runCLI(['presets', 'list', '--json'], { cwd: TEST_OUTPUT_DIR, env });
+
+    expect(result.exitCode).toBe(0);
+    const presets = JSON.parse(result.stdout);
+    const byName = Object.fromEntries(
+      presets.map((preset: { name: string; source: string }) => [preset.name, preset.source])
+    );
+    expect(byName).toMatchObject({
+      basic: 'built-in',
+      minimal: 'built-in',
+      'firebase-server': 'built-in',
+      'firebase-client': 'built-in',
+      house: 'user',
+    });
+  }, 60000);
+
+  it('should create a project from a preset under the given name', async () => {
+    const result = await runCLI(
+      ['create', 'my-app', '--preset', 'firebase-server', '--skip-install'],
+      { cwd: TEST_OUTPUT_DIR, env }
+    );
+
+    expect(result.exitCode).toBe(0);
+
+    const projectPath = path.join(TEST_OUTPUT_DIR, 'my-app');
+    const packageJson = await fs.readJson(path.join(projectPath, 'package.json'));
+    expect(packageJson.name).toBe('my-app');
+    expect(await fs.pathExists(path.join(projectPath, 'middleware.ts'))).toBe(true);
+  }, 60000);
+
+  it('should fail for unknown presets', async () => {
+    const result = await runCLI(['create', 'my-app', '--preset', 'nope'], {
+      cwd: TEST_OUTPUT_DIR,
+      env,
+    });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('PRESET_NOT_FOUND');
+  }, 60000);
+});
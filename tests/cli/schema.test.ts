@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createGenerator } from 'ts-json-schema-generator';
+import { runCLI, createProject } from '../helpers/cli-runner.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const ROOT_DIR = path.join(__dirname, '..', '..');
+const TEST_OUTPUT_DIR = path.join(ROOT_DIR, 'test-output');
+const SCHEMA_PATH = path.join(ROOT_DIR, 'schema', 'awg.config.schema.json');
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'configs');
+
+describe('CLI Config Schema', () => {
+  beforeEach(async () => {
+    await fs.ensureDir(TEST_OUTPUT_DIR);
+  });
+
+  afterEach(async () => {
+    if (await fs.pathExists(TEST_OUTPUT_DIR)) {
+      await fs.remove(TEST_OUTPUT_DIR);
+    }
+  });
+
+  it('should match the config types (run "npm run schema" to update)', async () => {
+    const generated = createGenerator({
+      path: path.join(ROOT_DIR, 'src', 'types', 'config.ts'),
+      tsconfig: path.join(ROOT_DIR, 'tsconfig.json'),
+      type: 'WorkspaceConfigFile',
+      topRef: false,
+    }).createSchema('WorkspaceConfigFile');
+
+    expect(await fs.readJson(SCHEMA_PATH)).toEqual(JSON.parse(JSON.stringify(generated)));
+  }, 60000);
+
+  it('should print the schema', async () => {
+    const result = await runCLI(['schema'], { cwd: TEST_OUTPUT_DIR });
+
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual(await fs.readJson(SCHEMA_PATH));
+  }, 60000);
+
+  it('should report schema violations by JSON pointer', async () => {
+    const config = await fs.readJson(path.join(FIXTURES_DIR, 'minimal.json'));
+    config.web.styling = 'sass';
+    config.cicd = { platform: 'circleci', semanticRelease: true, autoDeployment: false };
+    await fs.writeJson(path.join(TEST_OUTPUT_DIR, 'invalid.json'), config);
+
+    const result = await createProject('unused', {
+      config: path.join(TEST_OUTPUT_DIR, 'invalid.json'),
+      skipInstall: true,
+      cwd: TEST_OUTPUT_DIR,
+    });
+
+    expect(result.exitCode).not.toBe(0);
+    const output = result.stdout + result.stderr;
+    expect(output).toContain('/web/styling: must be one of "tailwind"');
+    expect(output).toContain('/cicd/platform: must be one of "github"');
+  }, 60000);
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runCLI, createProject } from '../helpers/cli-runner.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const TEST_OUTPUT_DIR = path.join(__dirname, '..', '..', 'test-output');
+
+/**
+ * Pretend the project was generated by an older generator by rewriting the
+ * base snapshot of `file`; returns the simulated old output
+ */
+async function simulateOlderTemplate(
+  projectPath: string,
+  file: string,
+  transform: (content: string) => string
+): Promise<string> {
+  const basePath = path.join(projectPath, '.awg', 'base.json');
+  const base = await fs.readJson(basePath);
+  const oldContent = transform(base[file]);
+  base[file] = oldContent;
+  await fs.writeJson(basePath, base, { spaces: 2 });
+  return oldContent;
+}
+
+describe('CLI Upgrade Command', () => {
+  const projectName = 'upgrade-test';
+  const projectPath = path.join(TEST_OUTPUT_DIR, projectName);
+
+  beforeEach(async () => {
+    await fs.ensureDir(TEST_OUTPUT_DIR);
+    await createProject(projectName, { skipInstall: true, cwd: TEST_OUTPUT_DIR });
+  });
+
+  afterEach(async () => {
+    if (await fs.pathExists(TEST_OUTPUT_DIR)) {
+      await fs.remove(TEST_OUTPUT_DIR);
+    }
+  });
+
+  it('should merge template changes with user edits', async () => {
+    const oldContent = await simulateOlderTemplate(projectPath, 'next.config.js', (content) =>
+      content.replace(/.*reactStrictMode.*\n/, '')
+    );
+    await fs.writeFile(path.join(projectPath, 'next.config.js'), `// user header\n${oldContent}`);
+
+    const result = await runCLI(['upgrade'], { cwd: projectPath });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('merged');
+
+    const merged = await fs.readFile(path.join(projectPath, 'next.config.js'), 'utf-8');
+    expect(merged).toContain('// user header');
+    expect(merged).toContain('reactStrictMode');
+  }, 60000);
+
+  it('should replace untouched files with the new template output', async () => {
+    const oldContent = await simulateOlderTemplate(
+      projectPath,
+      'CLAUDE.md',
+      (content) => `${content}outdated guidance\n`
+    );
+    await fs.writeFile(path.join(projectPath, 'CLAUDE.md'), oldContent);
+
+    const result = await runCLI(['upgrade'], { cwd: projectPath });
+
+    expect(result.exitCode).toBe(0);
+    const upgraded = await fs.readFile(path.join(projectPath, 'CLAUDE.md'), 'utf-8');
+    expect(upgraded).not.toContain('outdated guidance');
+  }, 60000);
+
+  it('should write conflict markers and fail when edits overlap', async () => {
+    const oldContent = await simulateOlderTemplate(
+      projectPath,
+      'README.md',
+      (content) => `${content}old trailer\n`
+    );
+    await fs.writeFile(
+      path.join(projectPath, 'README.md'),
+      oldContent.replace('old trailer', 'user trailer')
+    );
+
+    const result = await runCLI(['upgrade'], { cwd: projectPath });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('UPGRADE_CONFLICTS');
+
+    const readme = await fs.readFile(path.join(projectPath, 'README.md'), 'utf-8');
+    expect(readme).toContain('<<<<<<< current');
+    expect(readme).toContain('user trailer');
+    expect(readme).toContain('>>>>>>> app-workspace-generator@');
+  }, 60000);
+
+  it('should not write anything in dry-run mode', async () => {
+    const oldContent = await simulateOlderTemplate(
+      projectPath,
+      'CLAUDE.md',
+      (content) => `${content}outdated guidance\n`
+    );
+    await fs.writeFile(path.join(projectPath, 'CLAUDE.md'), oldContent);
+
+    const result = await runCLI(['upgrade', '--dry-run'], { cwd: projectPath });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('updated');
+    expect(await fs.readFile(path.join(projectPath, 'CLAUDE.md'), 'utf-8')).toBe(oldContent);
+  }, 60000);
+
+  it('should fail for projects without a manifest', async () => {
+    await fs.remove(path.join(projectPath, '.awg'));
+
+    const result = await runCLI(['upgrade'], { cwd: projectPath });
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stdout + result.stderr).toContain('No generation manifest');
+  }, 60000);
+});